@@ -1,27 +1,60 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Lang } from './utils/i18n';
 import Toast from './components/Toast';
 import Sidebar from './components/Sidebar';
 import ChatWindow from './components/ChatWindow';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
+import SettingsPanel from './components/SettingsPanel';
+import DocumentViewer, { ViewerTarget } from './components/DocumentViewer';
 import AppTour from './components/AppTour';
 import LoginPage from './components/LoginPage';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import StorageCleanup from './components/StorageCleanup';
+import WorkspaceImport, { ImportTarget } from './components/WorkspaceImport';
+import ConversationExport from './components/ConversationExport';
+import ConversationHistory from './components/ConversationHistory';
 import { DocumentFile, Message } from './types';
 import { ragService } from './services/geminiService';
+import { ChatTurn } from './services/llmProvider';
 import { generateId } from './utils/fileProcessor';
-import { storageService } from './utils/storageService';
+import { storageService, Workspace, DEFAULT_WORKSPACE_NAME } from './utils/storageService';
 import { analyticsService } from './utils/analyticsService';
+import { vectorIndex } from './utils/vectorIndex';
+import { settingsService, WorkspaceSettings } from './utils/settingsService';
+import { ingestionQueue } from './utils/ingestionQueue';
+import { activeDocuments, addDocumentVersion, findDuplicate, versionLabel } from './utils/versioning';
+import { collectDroppedFiles, CollectedUploads } from './utils/dropImport';
+import { copyDocumentData, copyWorkspaceContent, removeDocumentData } from './utils/workspaces';
+import { documentStore } from './utils/documentStore';
+import { isQuotaError, requestPersistentStorage, STORAGE_FULL_MESSAGE } from './utils/storageQuota';
+import { ConflictPolicy, exportWorkspace, mergeDocuments, readWorkspaceArchive, storeImportedDocuments, WorkspaceArchive } from './utils/workspaceArchive';
+import { downloadBlob, printHtml, safeFileName } from './utils/download';
+import { ExportFormat, exportableMessages, exportConversationHtml, exportConversationMarkdown } from './utils/conversationExport';
+import { Conversation, createConversation, isBlank, sortConversations, withMessages } from './utils/conversations';
 import { useAuth } from './contexts/AuthContext';
 
 const AppContent: React.FC = () => {
     const [lang, setLang] = useState<Lang>('en');
   const [documents, setDocuments] = useState<DocumentFile[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Latest library for duplicate checks, which run between renders
+  const documentsRef = useRef<DocumentFile[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  // The open workspace; its documents and conversations live in the state above
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [isTyping, setIsTyping] = useState(false);
   const [toast, setToast] = useState<{ message: string; type?: 'success' | 'error' | 'info' } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [pendingImport, setPendingImport] = useState<WorkspaceArchive | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepth = useRef(0);
   const [previousDocCount, setPreviousDocCount] = useState(0);
   const [sessionLoaded, setSessionLoaded] = useState(false); // Track if session has been loaded
   const { isNewUser, dismissNewUserTour, user } = useAuth();
@@ -43,39 +76,65 @@ const AppContent: React.FC = () => {
     }
   }, [isNewUser, user]);
 
-  // Load session on app mount
+  // Apply the signed-in user's model settings
+  useEffect(() => {
+    ragService.configure(settingsService.getSettings());
+  }, [user]);
+
+  /**
+   * Make a stored workspace the open one: its documents (loaded from the
+   * document store), conversations and model settings replace the current ones
+   */
+  const applyWorkspace = async (next: Workspace) => {
+    const { documents: loaded, missing } = await documentStore.hydrate(next.documents);
+    if (missing.length > 0) {
+      notify(`${missing.length} document(s) in "${next.name}" could not be loaded from browser storage`, 'error');
+    }
+    setWorkspace(next);
+    documentsRef.current = loaded;
+    setDocuments(loaded);
+    // There is always a conversation to type into
+    const opened = next.conversations.length > 0 ? next.conversations : [createConversation()];
+    setConversations(opened);
+    setActiveConversationId(
+      opened.some(c => c.id === next.activeConversationId) ? next.activeConversationId! : sortConversations(opened)[0].id
+    );
+    // Opening a workspace is not an upload
+    setPreviousDocCount(loaded.length);
+    setViewerTarget(null);
+    settingsService.setWorkspaceSettings(next.settings);
+    ragService.configure(settingsService.getSettings());
+    // Documents saved before the vector index existed still need embedding
+    vectorIndex.addDocuments(loaded).catch(err => {
+      console.error('[App] ❌ Failed to index workspace documents:', err);
+    });
+  };
+
+  const refreshWorkspaces = async () => {
+    setWorkspaces(await storageService.listWorkspaces());
+  };
+
+  // Open the last used workspace on app mount
   useEffect(() => {
     let isMounted = true;
 
-    const loadSession = async () => {
+    const loadWorkspace = async () => {
       try {
-        console.log('=== LOADING SESSION ===');
-        console.log('[App] 📋 Current localStorage:');
-        console.log('  - currentUserId:', localStorage.getItem('currentUserId'));
-        console.log('  - currentUsername:', localStorage.getItem('currentUsername'));
-        
-        try {
-          console.log('[App] Step 1: Loading session from storage...');
-          const session = await storageService.loadSession();
-          console.log('[App] Step 2: Session load result:', session ? { docs: session.documents.length, msgs: session.messages.length } : 'null');
-          
-          if (isMounted) {
-            if (session && session.documents.length > 0) {
-              console.log(`[App] ✅ Restoring ${session.documents.length} documents`);
-              setDocuments(session.documents);
-              setMessages(session.messages);
-              // Initialize previousDocCount so analytics doesn't count restored docs as new uploads
-              setPreviousDocCount(session.documents.length);
-              notify('Session restored from last visit', 'success');
-            } else {
-              console.log('[App] ⚠️ No documents in session');
-            }
+        console.log('=== LOADING WORKSPACE ===');
+        console.log('[App] 📋 currentUserId:', localStorage.getItem('currentUserId'));
+        const opened = await storageService.openCurrentWorkspace();
+        const all = await storageService.listWorkspaces();
+        console.log(`[App] Workspace "${opened.name}":`, { docs: opened.documents.length, conversations: opened.conversations.length });
+
+        if (isMounted) {
+          await applyWorkspace(opened);
+          setWorkspaces(all);
+          if (opened.documents.length > 0) {
+            notify(`Workspace "${opened.name}" restored from last visit`, 'success');
           }
-        } catch (error) {
-          console.error('[App] Error during session load:', error);
         }
       } catch (error) {
-        console.error('[App] ❌ Error loading session:', error instanceof Error ? error.message : error);
+        console.error('[App] ❌ Error loading workspace:', error instanceof Error ? error.message : error);
       } finally {
         if (isMounted) {
           setSessionLoaded(true); // Mark that session loading is complete
@@ -84,33 +143,174 @@ const AppContent: React.FC = () => {
       }
     };
 
-    loadSession();
+    loadWorkspace();
+    requestPersistentStorage().catch(err => console.warn('[App] Persistent storage request failed:', err));
     
     return () => {
       isMounted = false;
     };
   }, []);
 
-  // Auto-save session whenever documents or messages change
   useEffect(() => {
-    if (!isLoading && (documents.length > 0 || messages.length > 0)) {
-      const saveSession = async () => {
+    documentsRef.current = documents;
+  }, [documents]);
+
+  // Chat only sees the active version of each document
+  const chatDocuments = useMemo(() => activeDocuments(documents), [documents]);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  // The open workspace as it should be stored
+  const currentWorkspace = useMemo(
+    () => (workspace ? { ...workspace, documents, conversations, activeConversationId: activeConversationId || undefined } : null),
+    [workspace, documents, conversations, activeConversationId]
+  );
+
+  // Auto-save the workspace whenever its documents, conversations or settings change
+  useEffect(() => {
+    if (!isLoading && currentWorkspace) {
+      const saveWorkspace = async () => {
         try {
-          console.log('[App] 💾 Auto-saving session...');
-          console.log('[App] Docs:', documents.length, 'Messages:', messages.length);
-          
-          await storageService.saveSession(documents, messages);
-          console.log('[App] ✅ Session auto-saved successfully');
+          const saved = await storageService.saveWorkspace(currentWorkspace);
+          setWorkspaces(prev => prev.map(w => (w.id === saved.id ? saved : w)));
         } catch (error) {
-          console.error('[App] ❌ Failed to save session:', error);
+          console.error('[App] ❌ Failed to save workspace:', error);
+          if (isQuotaError(error)) {
+            notify(STORAGE_FULL_MESSAGE, 'error');
+            setShowStorage(true);
+          }
         }
       };
 
       // Debounce save to avoid too frequent writes
-      const timer = setTimeout(saveSession, 1000);
+      const timer = setTimeout(saveWorkspace, 1000);
       return () => clearTimeout(timer);
     }
-  }, [documents, messages, isLoading]);
+  }, [currentWorkspace, isLoading]);
+
+  /**
+   * Save the open workspace and open another. Refused while uploads are
+   * still being ingested, since they would land in the wrong workspace.
+   */
+  const switchWorkspace = async (workspaceId: string): Promise<boolean> => {
+    if (ingestionQueue.isBusy()) {
+      notify('Wait for the uploads in progress to finish before switching workspaces', 'info');
+      return false;
+    }
+    if (currentWorkspace) await storageService.saveWorkspace(currentWorkspace);
+    const next = await storageService.getWorkspace(workspaceId);
+    if (!next) {
+      notify('That workspace no longer exists', 'error');
+      await refreshWorkspaces();
+      return false;
+    }
+    storageService.setCurrentWorkspaceId(next.id);
+    await applyWorkspace(next);
+    await refreshWorkspaces();
+    return true;
+  };
+
+  // Leave a workspace that is being archived or deleted
+  const switchAway = async (workspaceId: string): Promise<boolean> => {
+    const other = workspaces.find(w => w.id !== workspaceId && !w.archived)
+      || await storageService.createWorkspace(DEFAULT_WORKSPACE_NAME);
+    return switchWorkspace(other.id);
+  };
+
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    try {
+      if (await switchWorkspace(workspaceId)) {
+        notify(`Switched to "${workspaces.find(w => w.id === workspaceId)?.name}"`, 'success');
+      }
+    } catch (error) {
+      console.error('[App] ❌ Failed to switch workspace:', error);
+      notify('Failed to switch workspace', 'error');
+    }
+  };
+
+  const handleCreateWorkspace = async (name: string) => {
+    try {
+      const created = await storageService.createWorkspace(name);
+      await switchWorkspace(created.id);
+    } catch (error) {
+      console.error('[App] ❌ Failed to create workspace:', error);
+      notify('Failed to create workspace', 'error');
+    }
+  };
+
+  const handleRenameWorkspace = async (workspaceId: string, name: string) => {
+    try {
+      if (workspaceId === workspace?.id) {
+        // Saved with the next autosave
+        setWorkspace({ ...workspace, name });
+        setWorkspaces(prev => prev.map(w => (w.id === workspaceId ? { ...w, name } : w)));
+      } else {
+        await storageService.updateWorkspace(workspaceId, { name });
+        await refreshWorkspaces();
+      }
+    } catch (error) {
+      console.error('[App] ❌ Failed to rename workspace:', error);
+      notify('Failed to rename workspace', 'error');
+    }
+  };
+
+  /**
+   * Copy a workspace with its documents, conversations and settings. The
+   * copy gets its own document ids, vectors and table rows, so the two
+   * can change independently.
+   */
+  const handleDuplicateWorkspace = async (workspaceId: string) => {
+    try {
+      const source = workspaceId === currentWorkspace?.id ? currentWorkspace : await storageService.getWorkspace(workspaceId);
+      if (!source) return;
+      const { documents: sourceDocuments } = await documentStore.hydrate(source.documents);
+      const copy = copyWorkspaceContent(sourceDocuments, source.conversations);
+      await copyDocumentData(copy);
+      const created = await storageService.createWorkspace(`${source.name} (copy)`, {
+        documents: copy.documents,
+        conversations: copy.conversations,
+        activeConversationId: source.activeConversationId,
+        settings: source.settings
+      });
+      await refreshWorkspaces();
+      notify(`Created "${created.name}"`, 'success');
+    } catch (error) {
+      console.error('[App] ❌ Failed to duplicate workspace:', error);
+      notify(isQuotaError(error) ? STORAGE_FULL_MESSAGE : 'Failed to duplicate workspace', 'error');
+    }
+  };
+
+  const handleArchiveWorkspace = async (workspaceId: string, archived: boolean) => {
+    try {
+      if (archived && workspaceId === workspace?.id && !(await switchAway(workspaceId))) return;
+      await storageService.updateWorkspace(workspaceId, { archived });
+      await refreshWorkspaces();
+    } catch (error) {
+      console.error('[App] ❌ Failed to archive workspace:', error);
+      notify('Failed to archive workspace', 'error');
+    }
+  };
+
+  const handleDeleteWorkspace = async (workspaceId: string) => {
+    const target = workspaces.find(w => w.id === workspaceId);
+    if (!target || !window.confirm(`Delete the workspace "${target.name}" with its documents and chat history? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      if (workspaceId === workspace?.id && !(await switchAway(workspaceId))) return;
+      // The stored record is current now that the workspace is closed
+      const stored = await storageService.getWorkspace(workspaceId);
+      const docIds = (stored || target).documents.map(d => d.id);
+      await removeDocumentData(docIds);
+      await storageService.deleteWorkspace(workspaceId);
+      await refreshWorkspaces();
+      notify(`Deleted "${target.name}"`, 'success');
+    } catch (error) {
+      console.error('[App] ❌ Failed to delete workspace:', error);
+      notify('Failed to delete workspace', 'error');
+    }
+  };
 
   // Track document uploads (but not when restoring from session)
   useEffect(() => {
@@ -128,8 +328,65 @@ const AppContent: React.FC = () => {
     }
   }, [documents.length, sessionLoaded]);
 
+  /**
+   * Update one conversation. Callers bind the id when they start, so an
+   * answer still streaming in lands in the conversation it was asked in.
+   */
+  const updateConversation = (conversationId: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === conversationId ? update(c) : c)));
+  };
+
+  const messageSetter = (conversationId: string): React.Dispatch<React.SetStateAction<Message[]>> => action =>
+    updateConversation(conversationId, c => withMessages(c, typeof action === 'function' ? action(c.messages) : action));
+
+  const handleNewConversation = () => {
+    if (isTyping) {
+      notify('Wait for the current answer to finish first', 'info');
+      return;
+    }
+    // Reuse an untouched conversation rather than piling up empty ones
+    if (activeConversation && isBlank(activeConversation)) return;
+    const created = createConversation();
+    setConversations(prev => [created, ...prev]);
+    setActiveConversationId(created.id);
+  };
+
+  const handleSelectConversation = (conversationId: string) => {
+    if (isTyping) {
+      notify('Wait for the current answer to finish before switching conversations', 'info');
+      return;
+    }
+    setActiveConversationId(conversationId);
+  };
+
+  const handleRenameConversation = (conversationId: string, title: string) => {
+    updateConversation(conversationId, c => ({ ...c, title, customTitle: true }));
+  };
+
+  const handlePinConversation = (conversationId: string, pinned: boolean) => {
+    updateConversation(conversationId, c => ({ ...c, pinned }));
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    const target = conversations.find(c => c.id === conversationId);
+    if (!target) return;
+    if (conversationId === activeConversationId && isTyping) {
+      notify('Wait for the current answer to finish first', 'info');
+      return;
+    }
+    if (!isBlank(target) && !window.confirm(`Delete the conversation "${target.title}"? This cannot be undone.`)) {
+      return;
+    }
+    const remaining = conversations.filter(c => c.id !== conversationId);
+    const next = remaining.length > 0 ? remaining : [createConversation()];
+    setConversations(next);
+    if (conversationId === activeConversationId) {
+      setActiveConversationId(sortConversations(next)[0].id);
+    }
+  };
+
   const handleSummarize = async (docsToSummarize: DocumentFile[]) => {
-    if (isTyping || docsToSummarize.length === 0) return;
+    if (isTyping || docsToSummarize.length === 0 || !activeConversationId) return;
     if (docsToSummarize.length === 0) {
       setToast({ message: 'No documents selected for summarization.', type: 'info' });
       return;
@@ -145,6 +402,7 @@ const AppContent: React.FC = () => {
       text: summaryRequestText,
       timestamp: Date.now()
     };
+    const setMessages = messageSetter(activeConversationId);
 
     setMessages(prev => [...prev, userMessage]);
     setIsTyping(true);
@@ -201,16 +459,145 @@ const AppContent: React.FC = () => {
     }
   };
 
+  const handleSaveSettings = (settings: WorkspaceSettings) => {
+    settingsService.saveSettings(settings);
+    setWorkspace(prev => (prev ? { ...prev, settings } : prev));
+    ragService.configure(settings);
+    setShowSettings(false);
+    notify(`Now using ${ragService.getModelLabel()}`, 'success');
+    // A different embedder needs vectors of its own; this only embeds what is missing
+    vectorIndex.addDocuments(documents).catch(err => {
+      console.error('[App] ❌ Failed to re-index documents for new embedder:', err);
+    });
+  };
+
+  /**
+   * Download a workspace as an archive, e.g. as a backup or to share it
+   */
+  const handleExportWorkspace = async (workspaceId: string) => {
+    try {
+      const source = workspaceId === currentWorkspace?.id ? currentWorkspace : await storageService.getWorkspace(workspaceId);
+      if (!source) return;
+      const { documents: sourceDocuments } = await documentStore.hydrate(source.documents);
+      const archive = await exportWorkspace(source, sourceDocuments);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(archive, `${safeFileName(source.name)}-${date}.workspace.zip`);
+      notify(`Exported "${source.name}"`, 'success');
+    } catch (error) {
+      console.error('[App] ❌ Failed to export workspace:', error);
+      notify(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  /**
+   * Export the open conversation, or some of its messages, for a report
+   */
+  const handleExportConversation = (format: ExportFormat, messageIds: string[]) => {
+    setShowExport(false);
+    if (!activeConversation) return;
+    try {
+      const input = {
+        title: activeConversation.title,
+        workspaceName: currentWorkspace?.name || 'Workspace',
+        messages: activeConversation.messages.filter(m => messageIds.includes(m.id)),
+        documents
+      };
+      if (format === 'pdf') {
+        printHtml(exportConversationHtml(input));
+        return;
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      const name = `${safeFileName(activeConversation.title)}-${date}`;
+      if (format === 'markdown') {
+        downloadBlob(new Blob([exportConversationMarkdown(input)], { type: 'text/markdown' }), `${name}.md`);
+      } else {
+        downloadBlob(new Blob([exportConversationHtml(input)], { type: 'text/html' }), `${name}.html`);
+      }
+      notify(`Exported "${activeConversation.title}"`, 'success');
+    } catch (error) {
+      console.error('[App] ❌ Failed to export conversation:', error);
+      notify(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      setPendingImport(await readWorkspaceArchive(file));
+    } catch (error) {
+      console.error('[App] ❌ Failed to read workspace archive:', error);
+      notify(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  /**
+   * Import an archive as a new workspace, or merge its documents into the
+   * open one. Imported documents always get fresh ids, so importing a
+   * backup next to the workspace it came from cannot collide with it.
+   */
+  const handleConfirmImport = async (target: ImportTarget, policy: ConflictPolicy) => {
+    const archive = pendingImport;
+    if (!archive) return;
+    setPendingImport(null);
+    const { manifest } = archive;
+
+    try {
+      const copy = copyWorkspaceContent(archive.documents, manifest.workspace.conversations);
+
+      if (target === 'new') {
+        await storeImportedDocuments(archive, copy, copy.documents);
+        const taken = new Set(workspaces.map(w => w.name));
+        const name = taken.has(manifest.workspace.name) ? `${manifest.workspace.name} (imported)` : manifest.workspace.name;
+        const created = await storageService.createWorkspace(name, {
+          documents: copy.documents,
+          conversations: copy.conversations,
+          activeConversationId: manifest.workspace.activeConversationId,
+          // Keep this browser's API key
+          settings: manifest.workspace.settings && { ...settingsService.getSettings(), ...manifest.workspace.settings, apiKey: settingsService.getSettings().apiKey }
+        });
+        if (await switchWorkspace(created.id)) {
+          notify(`Imported "${name}" with ${copy.documents.length} document(s)`, 'success');
+        }
+        return;
+      }
+
+      if (ingestionQueue.isBusy()) {
+        notify('Wait for the uploads in progress to finish before importing', 'info');
+        return;
+      }
+      const plan = mergeDocuments(documentsRef.current, copy.documents, policy);
+      await storeImportedDocuments(archive, copy, plan.added);
+      await removeDocumentData(plan.removedIds);
+      documentsRef.current = plan.documents;
+      setDocuments(plan.documents);
+      // Vectors from a different embedder are recomputed here
+      vectorIndex.addDocuments(plan.added).catch(err => {
+        console.error('[App] ❌ Failed to index imported documents:', err);
+      });
+      notify(`Imported ${plan.added.length} document(s)${plan.skipped > 0 ? `, skipped ${plan.skipped} already here` : ''}`, 'success');
+    } catch (error) {
+      console.error('[App] ❌ Failed to import workspace:', error);
+      notify(isQuotaError(error) ? STORAGE_FULL_MESSAGE : `Import failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  // Delete inactive versions from the storage cleanup dialog
+  const handleDeleteVersions = async (docIds: string[]) => {
+    setDocuments(prev => prev.filter(d => !docIds.includes(d.id)));
+    await removeDocumentData(docIds);
+  };
+
   // Clear all data and history
   const handleClearHistory = async () => {
-    if (!window.confirm('Are you sure you want to clear all documents and chat history? This cannot be undone.')) {
+    if (!window.confirm('Are you sure you want to clear all documents and chat history in this workspace? This cannot be undone.')) {
       return;
     }
 
     try {
-      await storageService.clearAllSessions();
+      await removeDocumentData(documents.map(d => d.id));
       setDocuments([]);
-      setMessages([]);
+      const fresh = createConversation();
+      setConversations([fresh]);
+      setActiveConversationId(fresh.id);
       setToast(null);
       notify('All data cleared successfully', 'success');
     } catch (error) {
@@ -219,31 +606,145 @@ const AppContent: React.FC = () => {
     }
   };
 
+  /**
+   * Queue uploads from the file pickers or a drop. Documents are added to
+   * the library one by one as the worker finishes them. Exact duplicates
+   * are skipped; a changed file with the name of a library document becomes
+   * that document's new active version.
+   */
+  const handleUpload = ({ items, skipped }: CollectedUploads) => {
+    if (skipped > 0) {
+      notify(`Skipped ${skipped} unsupported or oversized file(s)`, 'info');
+    }
+    if (items.length === 0) return;
+    const { ocrLanguage } = settingsService.getSettings();
+    ingestionQueue.enqueue(
+      items,
+      { ocrLanguage },
+      doc => {
+        documentsRef.current = addDocumentVersion(documentsRef.current, doc);
+        const added = documentsRef.current.find(d => d.id === doc.id);
+        if (added?.version) {
+          notify(`${versionLabel(added)} is now active; earlier versions are kept in its history`, 'success');
+        }
+        setDocuments(prev => addDocumentVersion(prev, doc));
+      },
+      (contentHash, file) => {
+        const existing = findDuplicate(documentsRef.current, contentHash);
+        if (!existing) return null;
+        notify(`${file.name} was not added: it is identical to ${versionLabel(existing)}`, 'info');
+        return `identical to ${versionLabel(existing)}`;
+      }
+    );
+  };
+
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    // Enter/leave fire for every child element; only hide when leaving the window
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    try {
+      handleUpload(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+      notify(`Could not read dropped files: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  // Closes automatically if the viewed document is removed
+  const viewerDocument = viewerTarget ? documents.find(d => d.id === viewerTarget.docId) : undefined;
+
   return (
-    <div className="flex h-screen w-screen overflow-hidden bg-slate-950 flex-row">
+    <div
+      className="flex h-screen w-screen overflow-hidden bg-slate-950 flex-row relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={e => isFileDrag(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-40 bg-blue-950/70 backdrop-blur-sm border-4 border-dashed border-blue-500 rounded-xl m-2 flex items-center justify-center pointer-events-none">
+          <div className="text-center space-y-2">
+            <p className="text-2xl font-bold text-white">Drop to import</p>
+            <p className="text-sm text-blue-200">Files, whole folders or .zip archives</p>
+          </div>
+        </div>
+      )}
       <Sidebar 
         documents={documents} 
         onDocumentsChange={setDocuments}
+        onUpload={handleUpload}
         onSummarize={handleSummarize}
         isProcessing={isTyping}
         lang={lang}
         setLang={setLang}
         onClearHistory={handleClearHistory}
         onShowAnalytics={() => setShowAnalytics(true)}
+        onShowSettings={() => setShowSettings(true)}
+        onOpenDocument={setViewerTarget}
         onClearError={() => setToast(null)}
-      />
-      <main className="flex-1 h-full">
-        {documents.length > 0 ? (
-          <ChatWindow 
-            documents={documents} 
-            messages={messages}
-            setMessages={setMessages}
-            isTyping={isTyping}
-            setIsTyping={setIsTyping}
-            lang={lang}
+        onManageStorage={() => setShowStorage(true)}
+        workspaceSwitcher={currentWorkspace && (
+          <WorkspaceSwitcher
+            current={currentWorkspace}
+            workspaces={workspaces.map(w => (w.id === currentWorkspace.id ? currentWorkspace : w))}
+            onSwitch={handleSwitchWorkspace}
+            onCreate={handleCreateWorkspace}
+            onRename={handleRenameWorkspace}
+            onDuplicate={handleDuplicateWorkspace}
+            onArchive={handleArchiveWorkspace}
+            onDelete={handleDeleteWorkspace}
+            onExport={handleExportWorkspace}
+            onImport={handleImportFile}
           />
+        )}
+      />
+      <main className="flex-1 h-full flex min-w-0">
+        {documents.length > 0 && activeConversation ? (
+          <>
+            <ConversationHistory
+              conversations={conversations}
+              activeId={activeConversationId}
+              onSelect={handleSelectConversation}
+              onNew={handleNewConversation}
+              onRename={handleRenameConversation}
+              onPin={handlePinConversation}
+              onDelete={handleDeleteConversation}
+            />
+            <div className="flex-1 h-full min-w-0">
+              <ChatWindow 
+                key={`${workspace?.id}:${activeConversation.id}`}
+                documents={chatDocuments} 
+                messages={activeConversation.messages}
+                setMessages={messageSetter(activeConversation.id)}
+                history={activeConversation.history}
+                onHistoryChange={(history: ChatTurn[]) => updateConversation(activeConversation.id, c => ({ ...c, history }))}
+                isTyping={isTyping}
+                setIsTyping={setIsTyping}
+                lang={lang}
+                onOpenDocument={setViewerTarget}
+                onExport={() => setShowExport(true)}
+              />
+            </div>
+          </>
         ) : (
-          <div className="h-full flex flex-col items-center justify-center p-8 bg-slate-900">
+          <div className="flex-1 h-full flex flex-col items-center justify-center p-8 bg-slate-900">
             <div className="max-w-md w-full text-center space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-1000">
               <div className="relative inline-block">
                 <div className="absolute inset-0 bg-blue-500 blur-3xl opacity-20 animate-pulse"></div>
@@ -295,6 +796,13 @@ const AppContent: React.FC = () => {
           </div>
         )}
       </main>
+      {viewerDocument && viewerTarget && (
+        <DocumentViewer
+          document={viewerDocument}
+          target={viewerTarget}
+          onClose={() => setViewerTarget(null)}
+        />
+      )}
       {toast && (
         <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
       )}
@@ -303,6 +811,36 @@ const AppContent: React.FC = () => {
         isOpen={showAnalytics} 
         onClose={() => setShowAnalytics(false)} 
       />
+      <SettingsPanel
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        onSave={handleSaveSettings}
+      />
+      <StorageCleanup
+        isOpen={showStorage}
+        onClose={() => setShowStorage(false)}
+        documents={documents}
+        archivedWorkspaces={workspaces.filter(w => w.archived)}
+        onDeleteVersions={handleDeleteVersions}
+        onDeleteWorkspace={handleDeleteWorkspace}
+      />
+      {pendingImport && currentWorkspace && (
+        <WorkspaceImport
+          archive={pendingImport}
+          currentName={currentWorkspace.name}
+          currentDocuments={documents}
+          onConfirm={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+      {showExport && activeConversation && (
+        <ConversationExport
+          title={activeConversation.title}
+          messages={exportableMessages(activeConversation.messages)}
+          onConfirm={handleExportConversation}
+          onClose={() => setShowExport(false)}
+        />
+      )}
       <AppTour 
         isOpen={showTour} 
         onClose={() => {
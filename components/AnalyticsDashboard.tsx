@@ -216,6 +216,37 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ lang, isOpen, o
             </div>
           </div>
 
+          {/* Answer Groundedness */}
+          <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700/50">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-slate-300 font-semibold">🛡️ Answer Groundedness</p>
+              <span className="text-lg font-bold text-amber-400">
+                {stats.avgGroundedness !== null ? `${Math.round(stats.avgGroundedness * 100)}%` : '—'}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 mb-3">
+              Share of answer sentences supported by retrieved sources, across {stats.verifiedAnswers} verified answer{stats.verifiedAnswers !== 1 ? 's' : ''}
+            </p>
+            <div className="space-y-2">
+              {Object.entries(stats.groundednessPerDay)
+                .slice(-7)
+                .map(([date, score]: [string, number]) => (
+                  <div key={date} className="flex items-center gap-3">
+                    <span className="text-xs text-slate-400 w-12">{date}</span>
+                    <div className="flex-1 flex items-center gap-2">
+                      <div className="flex-1 h-6 bg-slate-700 rounded">
+                        <div
+                          className={`h-6 rounded transition-all ${score >= 0.8 ? 'bg-green-500/70' : 'bg-amber-500/70'}`}
+                          style={{ width: `${score * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-xs font-semibold text-slate-300 w-8 text-right">{Math.round(score * 100)}%</span>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+
           {/* Top Keywords */}
           {stats.topKeywords.length > 0 && (
             <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700/50">
@@ -24,7 +24,7 @@ const AppTour: React.FC<AppTourProps> = ({ isOpen, onClose }) => {
     {
       id: 'documents',
       title: '📄 Add Documents',
-      description: 'Upload and manage your documents in the Sidebar on the bottom left side of the screen. Support multiple formats (PDF, TXT, DOCX). Your documents are processed and indexed for intelligent searching and analysis.'
+      description: 'Upload and manage your documents in the Sidebar on the bottom left side of the screen. Support multiple formats (PDF, TXT, DOCX, PPTX, XLSX). Your documents are processed and indexed for intelligent searching and analysis.'
     },
     {
       id: 'search',
@@ -2,7 +2,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Message, DocumentFile } from '../types';
 import { ragService } from '../services/geminiService';
+import { ChatTurn } from '../services/llmProvider';
+import { turnsFromMessages } from '../utils/chatHistory';
+import { addVariant, switchVariant, variantCount } from '../utils/branching';
 import { generateId } from '../utils/fileProcessor';
+import { formatCitationLabel } from '../utils/citations';
+import { analyticsService } from '../utils/analyticsService';
+import { ViewerTarget } from './DocumentViewer';
+import Markdown, { TextHighlight } from './Markdown';
 
 import { Lang, translations } from '../utils/i18n';
 
@@ -10,23 +17,39 @@ interface ChatWindowProps {
   documents: DocumentFile[];
   messages: Message[];
   setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
+  history: ChatTurn[]; // model-side turns of the conversation, read when the chat starts
+  onHistoryChange: (history: ChatTurn[]) => void;
   isTyping: boolean;
   setIsTyping: React.Dispatch<React.SetStateAction<boolean>>;
   lang: Lang;
+  onOpenDocument?: (target: ViewerTarget) => void;
+  onExport?: () => void;
 }
 
 const ChatWindow: React.FC<ChatWindowProps> = ({ 
   documents, 
   messages, 
   setMessages, 
+  history,
+  onHistoryChange,
   isTyping, 
   setIsTyping, 
-  lang
+  lang,
+  onOpenDocument,
+  onExport
 }) => {
   const [answerLang, setAnswerLang] = useState<Lang>(lang);
   const [input, setInput] = useState('');
   const [isInitialized, setIsInitialized] = useState(false);
+  const [queryTables, setQueryTables] = useState(false);
+  const hasTables = documents.some(d => d.table);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Documents the chat was last initialized with
+  const chatDocsRef = useRef<DocumentFile[] | null>(null);
+  // Set while an answer streams, so Stop can cancel it
+  const abortRef = useRef<AbortController | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -39,7 +62,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
       const init = async () => {
         setIsTyping(true);
         try {
-          await ragService.initializeChat(documents);
+          // Conversations saved before model history was kept are rebuilt from their messages
+          await ragService.initializeChat(documents, history.length > 0 ? history : turnsFromMessages(messages));
+          chatDocsRef.current = documents;
+          onHistoryChange(ragService.getHistory());
           setIsInitialized(true);
           if (messages.length === 0) {
             setMessages([
@@ -63,13 +89,93 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   }, [documents, isInitialized]);
 
-  // Re-initialize if documents change significantly
+  // Stop a streaming answer when the chat closes (e.g. switching workspaces)
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Re-initialize if documents change significantly, keeping the turns so far
   useEffect(() => {
-    if (isInitialized && documents.length > 0) {
-      ragService.initializeChat(documents);
+    if (isInitialized && documents.length > 0 && documents !== chatDocsRef.current) {
+      chatDocsRef.current = documents;
+      ragService.initializeChat(documents, ragService.getHistory())
+        .then(() => onHistoryChange(ragService.getHistory()))
+        .catch(error => console.error("Re-initialization failed", error));
     }
   }, [documents, isInitialized]);
 
+  /**
+   * Stream an answer to `question` into a new assistant message, which
+   * `place` puts into the conversation. `history`, when given, replaces the
+   * model's turns first, for forks from an earlier point.
+   */
+  const streamAnswer = async (question: string, place: (answer: Message) => void, history?: ChatTurn[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsTyping(true);
+
+    const assistantMessageId = generateId();
+    const updateAnswer = (update: Partial<Message>) => setMessages(prev => prev.map(msg =>
+      msg.id === assistantMessageId ? { ...msg, ...update } : msg
+    ));
+    // Hidden until text arrives; the typing indicator shows meanwhile
+    place({ id: assistantMessageId, role: 'assistant', text: '', timestamp: Date.now() });
+    let fullResponse = '';
+
+    try {
+      if (history) {
+        await ragService.initializeChat(documents, history);
+      }
+      // Instruct LLM to reply in the selected language
+      const prompt = lang === 'hi'
+        ? question + '\nउत्तर हिंदी में दें।'
+        : question;
+      const stream = ragService.sendMessageStream(prompt, { queryTables: hasTables && queryTables, signal: controller.signal });
+      for await (const chunk of stream) {
+        fullResponse += chunk;
+        updateAnswer({ text: fullResponse });
+      }
+      onHistoryChange(ragService.getHistory());
+
+      const stopped = controller.signal.aborted;
+      if (stopped) {
+        updateAnswer({ stopped: true });
+      }
+
+      // Attach structured citations once the full answer is known
+      const citations = ragService.getCitations(fullResponse);
+      if (citations.length > 0) {
+        updateAnswer({ citations, sources: Array.from(new Set(citations.map(c => c.docName))) });
+      }
+
+      // Flag sentences the retrieved sources do not support; a stopped
+      // answer ends mid-sentence, so it is not checked
+      if (!stopped) {
+        const grounding = await ragService.verifyAnswer(fullResponse);
+        updateAnswer({ grounding });
+        if (grounding.claims.length > 0) {
+          analyticsService.trackGrounding(grounding.score, grounding.claims.length);
+        }
+      }
+    } catch (error) {
+      console.error("Chat Error:", error);
+      const errorMsg = error instanceof Error ? error.message : 'An unexpected error occurred.';
+      if (fullResponse) {
+        setMessages(prev => [...prev, {
+          id: generateId(),
+          role: 'assistant',
+          text: errorMsg,
+          timestamp: Date.now()
+        }]);
+      } else {
+        updateAnswer({ text: errorMsg });
+      }
+    } finally {
+      abortRef.current = null;
+      setIsTyping(false);
+    }
+  };
+
+  const appendMessage = (message: Message) => setMessages(prev => [...prev, message]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || !isInitialized || isTyping) return;
@@ -81,52 +187,55 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
       timestamp: Date.now()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    appendMessage(userMessage);
     setInput('');
-    setIsTyping(true);
+    await streamAnswer(userMessage.text, appendMessage);
+  };
+
+  // Ask the question before an answer again; the new answer becomes another version of it
+  const handleRegenerate = async (index: number) => {
+    const question = messages[index - 1];
+    if (!isInitialized || isTyping || question?.role !== 'user') return;
+    await streamAnswer(
+      question.text,
+      answer => setMessages(prev => addVariant(prev, index, [answer])),
+      turnsFromMessages(messages.slice(0, index - 1))
+    );
+  };
+
+  // Send an edited question as another version of the original, forking the conversation there
+  const handleResend = async (index: number) => {
+    const text = editText.trim();
+    if (!text || !isInitialized || isTyping) return;
+    const edited: Message = { id: generateId(), role: 'user', text, timestamp: Date.now() };
+    const history = turnsFromMessages(messages.slice(0, index));
+    setEditingId(null);
+    setMessages(prev => addVariant(prev, index, [edited]));
+    await streamAnswer(text, appendMessage, history);
+  };
 
+  const handleSwitchVariant = async (index: number, to: number) => {
+    if (isTyping) return;
+    const next = switchVariant(messages, index, to);
+    setMessages(next);
+    // The model continues from the version now shown
+    setIsTyping(true);
     try {
-      let fullResponse = '';
-      const assistantMessageId = generateId();
-      let messageAdded = false;
-      
-      // Instruct LLM to reply in the selected language
-      const prompt = lang === 'hi'
-        ? userMessage.text + '\nउत्तर हिंदी में दें।'
-        : userMessage.text;
-      const stream = ragService.sendMessageStream(prompt);
-      for await (const chunk of stream) {
-        fullResponse += chunk;
-        
-        // Only add message to state after first chunk arrives
-        if (!messageAdded) {
-          setMessages(prev => [...prev, {
-            id: assistantMessageId,
-            role: 'assistant',
-            text: fullResponse,
-            timestamp: Date.now()
-          }]);
-          messageAdded = true;
-        } else {
-          setMessages(prev => prev.map(msg => 
-            msg.id === assistantMessageId ? { ...msg, text: fullResponse } : msg
-          ));
-        }
-      }
+      await ragService.initializeChat(documents, turnsFromMessages(next));
+      onHistoryChange(ragService.getHistory());
     } catch (error) {
-      console.error("Chat Error:", error);
-      const errorMsg = error instanceof Error ? error.message : 'An unexpected error occurred.';
-      setMessages(prev => [...prev, {
-        id: generateId(),
-        role: 'assistant',
-        text: errorMsg,
-        timestamp: Date.now()
-      }]);
+      console.error("Switching versions failed", error);
     } finally {
       setIsTyping(false);
     }
   };
 
+  // Sentences the retrieved sources do not support, marked in the answer
+  const unsupportedRanges = (msg: Message): TextHighlight[] =>
+    (msg.grounding?.claims || [])
+      .filter(c => !c.supported)
+      .map(c => ({ start: c.start, end: c.end, title: 'Not supported by the retrieved sources' }));
+
   return (
     <div className="flex-1 flex flex-col h-full bg-slate-900 overflow-hidden">
       {/* Header */}
@@ -147,6 +256,16 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             </div>
           </div>
         </div>
+        {onExport && messages.some(m => m.role === 'user') && (
+          <button
+            onClick={onExport}
+            disabled={isTyping}
+            className="ml-auto px-3 py-1.5 text-xs text-slate-300 hover:text-white rounded-lg border border-slate-700 hover:border-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Export this conversation as Markdown, HTML or PDF"
+          >
+            ⬇️ Export
+          </button>
+        )}
       </div>
 
       {/* Messages */}
@@ -164,11 +283,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             <p className="text-slate-400 font-medium">Upload documents to start the conversation</p>
           </div>
         ) : (
-          messages.map((msg) => {
+          messages.map((msg, index) => {
             // Don't display empty assistant messages (they appear as blank dots)
-            if (msg.role === 'assistant' && !msg.text.trim()) {
+            if (msg.role === 'assistant' && !msg.text.trim() && !msg.stopped) {
               return null;
             }
+            const canRegenerate = msg.role === 'assistant' && messages[index - 1]?.role === 'user';
             return (
             <div 
               key={msg.id} 
@@ -186,19 +306,136 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     </svg>
                   )}
                 </div>
-                <div className={`p-4 rounded-2xl ${
-                  msg.role === 'user' 
-                  ? 'bg-blue-600 text-white rounded-tr-none shadow-lg shadow-blue-900/20' 
-                  : 'bg-slate-800 text-slate-200 rounded-tl-none border border-slate-700 shadow-sm'
-                }`}>
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text || (isTyping && '...')}</p>
+                <div className="group min-w-0">
+                  {editingId === msg.id ? (
+                    <div className="p-3 rounded-2xl rounded-tr-none bg-slate-800 border border-blue-500 space-y-2">
+                      <textarea
+                        autoFocus
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleResend(index);
+                          }
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        rows={3}
+                        className="w-full min-w-[16rem] bg-transparent text-sm text-slate-100 resize-y focus:outline-none"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditingId(null)} className="px-3 py-1 text-xs text-slate-300 hover:text-white rounded-lg border border-slate-600">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleResend(index)}
+                          disabled={!editText.trim() || isTyping}
+                          className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded-lg"
+                        >
+                          Send
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className={`p-4 rounded-2xl ${
+                      msg.role === 'user' 
+                      ? 'bg-blue-600 text-white rounded-tr-none shadow-lg shadow-blue-900/20' 
+                      : 'bg-slate-800 text-slate-200 rounded-tl-none border border-slate-700 shadow-sm'
+                    }`}>
+                      {msg.role === 'assistant' && msg.text ? (
+                        <Markdown text={msg.text} highlights={unsupportedRanges(msg)} />
+                      ) : (
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text || (isTyping && '...')}</p>
+                      )}
+                      {msg.stopped && (
+                        <p className="mt-2 text-[11px] italic text-slate-400">⏹ Stopped{msg.text ? '' : ' before any answer arrived'}</p>
+                      )}
+                      {msg.grounding && msg.grounding.claims.length > 0 && (
+                        <div
+                          className={`mt-3 inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider ${
+                            msg.grounding.score >= 0.8
+                              ? 'bg-green-500/10 text-green-400 border border-green-500/30'
+                              : 'bg-amber-500/10 text-amber-400 border border-amber-500/30'
+                          }`}
+                          title={`${msg.grounding.claims.filter(c => c.supported).length} of ${msg.grounding.claims.length} sentences supported by sources${msg.grounding.modelChecked ? ' (model-verified)' : ''}`}
+                        >
+                          {msg.grounding.score >= 0.8 ? '✓' : '⚠'} Grounded {Math.round(msg.grounding.score * 100)}%
+                        </div>
+                      )}
+                      {msg.citations && msg.citations.length > 0 && (
+                        <div className="mt-3 pt-3 border-t border-slate-700 flex flex-wrap gap-2">
+                          {msg.citations.map(citation => (
+                            <button
+                              key={citation.index}
+                              onClick={() => onOpenDocument?.({ docId: citation.docId, start: citation.start, end: citation.end })}
+                              title={`Open cited passage in ${citation.docName}`}
+                              className="flex items-center gap-1.5 max-w-[16rem] px-2 py-1 rounded-full bg-slate-700/60 hover:bg-blue-600/30 border border-slate-600 hover:border-blue-500/50 text-[11px] text-slate-300 transition-colors"
+                            >
+                              <span className="font-bold text-blue-400">{citation.index}</span>
+                              <span className="truncate">{formatCitationLabel(citation)}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {editingId !== msg.id && (msg.variants || canRegenerate || msg.role === 'user') && (
+                    <div className={`mt-1 flex items-center gap-1 text-[11px] text-slate-500 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      {msg.variants && (
+                        <span className="flex items-center">
+                          <button
+                            onClick={() => handleSwitchVariant(index, (msg.variantIndex ?? 0) - 1)}
+                            disabled={isTyping || (msg.variantIndex ?? 0) === 0}
+                            className="px-1 hover:text-slate-200 disabled:opacity-30"
+                            title="Previous version"
+                          >
+                            ‹
+                          </button>
+                          {(msg.variantIndex ?? 0) + 1}/{variantCount(msg)}
+                          <button
+                            onClick={() => handleSwitchVariant(index, (msg.variantIndex ?? 0) + 1)}
+                            disabled={isTyping || (msg.variantIndex ?? 0) === variantCount(msg) - 1}
+                            className="px-1 hover:text-slate-200 disabled:opacity-30"
+                            title="Next version"
+                          >
+                            ›
+                          </button>
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {canRegenerate && (
+                          <button
+                            onClick={() => handleRegenerate(index)}
+                            disabled={isTyping}
+                            className="px-1.5 py-0.5 rounded hover:bg-slate-800 hover:text-slate-200 disabled:opacity-30"
+                            title="Answer again; earlier answers stay available"
+                          >
+                            ↻ Regenerate
+                          </button>
+                        )}
+                        {msg.role === 'user' && (
+                          <button
+                            onClick={() => {
+                              setEditingId(msg.id);
+                              setEditText(msg.text);
+                            }}
+                            disabled={isTyping}
+                            className="px-1.5 py-0.5 rounded hover:bg-slate-800 hover:text-slate-200 disabled:opacity-30"
+                            title="Edit and resend; the conversation forks from here"
+                          >
+                            ✏️ Edit
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
             );
           })
         )}
-        {isTyping && messages.length > 0 && messages[messages.length - 1].role === 'user' && (
+        {isTyping && messages.length > 0 && (messages[messages.length - 1].role === 'user' || (!messages[messages.length - 1].text && !messages[messages.length - 1].stopped)) && (
            <div className="flex justify-start">
              <div className="max-w-[80%] flex items-start space-x-3">
                <div className="mt-1 flex-shrink-0 w-8 h-8 rounded-lg bg-blue-600/20 flex items-center justify-center mr-3">
@@ -223,18 +460,47 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             placeholder={isInitialized ? "Ask a question about your documents..." : "Please upload documents first..."}
             className="w-full bg-slate-800 border border-slate-700 text-slate-100 placeholder-slate-500 rounded-2xl py-4 pl-6 pr-24 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all disabled:opacity-50"
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || !isInitialized || isTyping}
-            className="absolute right-2 top-2 bottom-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-xl px-6 transition-all shadow-lg shadow-blue-900/20"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          </button>
+          {isTyping && abortRef.current ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="absolute right-2 top-2 bottom-2 bg-slate-700 hover:bg-red-600 text-white rounded-xl px-6 transition-all"
+              title="Stop generating; the answer so far is kept"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() || !isInitialized || isTyping}
+              className="absolute right-2 top-2 bottom-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-xl px-6 transition-all shadow-lg shadow-blue-900/20"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
         </form>
+        {hasTables && (
+          <div className="max-w-4xl mx-auto mt-2 flex items-center">
+            <label
+              className="flex items-center gap-2 text-[11px] text-slate-400 cursor-pointer select-none"
+              title="Filter, group and aggregate CSV, JSON and YAML tables locally and cite the rows used"
+            >
+              <input
+                type="checkbox"
+                checked={queryTables}
+                onChange={(e) => setQueryTables(e.target.checked)}
+                className="accent-blue-500"
+              />
+              📊 Query tables
+            </label>
+          </div>
+        )}
         <p className="text-center text-[10px] text-slate-500 mt-3 font-medium uppercase tracking-widest">
-          Powered by Gemini 3 Pro & RAG Engine
+          Powered by {ragService.getModelLabel()} & RAG Engine
         </p>
       </div>
     </div>
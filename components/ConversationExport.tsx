@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Message } from '../types';
+import { ExportFormat } from '../utils/conversationExport';
+
+type ExportScope = 'all' | 'selected';
+
+interface ConversationExportProps {
+  title: string;
+  messages: Message[]; // the exportable messages, in order
+  onConfirm: (format: ExportFormat, messageIds: string[]) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'markdown', label: 'Markdown', hint: 'A .md file with footnotes, for notes and wikis' },
+  { value: 'html', label: 'HTML', hint: 'A standalone page that opens in any browser' },
+  { value: 'pdf', label: 'PDF', hint: 'Opens the print dialog; choose "Save as PDF"' }
+];
+
+// Characters of each message shown in the selection list
+const PREVIEW_LENGTH = 90;
+
+const preview = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}…` : flat || '(empty)';
+};
+
+const ConversationExport: React.FC<ConversationExportProps> = ({ title, messages, onConfirm, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(messages.map(m => m.id)));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const messageIds = scope === 'all' ? messages.map(m => m.id) : messages.filter(m => selected.has(m.id)).map(m => m.id);
+
+  const option = (value: ExportScope, label: string) => (
+    <label className={`flex-1 flex items-center gap-2 p-3 rounded-lg border cursor-pointer text-sm text-slate-200 ${scope === value ? 'border-blue-500 bg-blue-600/10' : 'border-slate-700 bg-slate-800/50'}`}>
+      <input type="radio" checked={scope === value} onChange={() => setScope(value)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800/80 backdrop-blur border-b border-slate-700 p-6 flex items-center justify-between rounded-t-2xl">
+          <div className="overflow-hidden">
+            <h2 className="text-2xl font-bold text-white">⬇️ Export Conversation</h2>
+            <p className="text-sm text-slate-400 truncate">"{title}" · {messages.length} message(s)</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            {FORMATS.map(f => (
+              <label key={f.value} className="flex items-start gap-2 text-sm text-slate-200 cursor-pointer">
+                <input type="radio" checked={format === f.value} onChange={() => setFormat(f.value)} className="mt-1" />
+                <span>
+                  {f.label}
+                  <span className="block text-xs text-slate-400">{f.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            {option('all', 'Whole conversation')}
+            {option('selected', 'Selected messages')}
+          </div>
+
+          {scope === 'selected' && (
+            <div className="space-y-1 max-h-64 overflow-y-auto p-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+              {messages.map(m => (
+                <label key={m.id} className="flex items-start gap-2 p-1.5 rounded hover:bg-slate-700/50 text-xs cursor-pointer">
+                  <input type="checkbox" checked={selected.has(m.id)} onChange={() => toggle(m.id)} className="mt-0.5" />
+                  <span className="min-w-0">
+                    <span className={`font-semibold ${m.role === 'user' ? 'text-blue-300' : 'text-slate-300'}`}>
+                      {m.role === 'user' ? 'You' : 'Assistant'}
+                    </span>
+                    <span className="text-slate-500"> · {new Date(m.timestamp).toLocaleTimeString()}</span>
+                    <span className="block text-slate-400 break-words">{preview(m.text)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">
+            Includes timestamps, the documents in use, and the cited passages as footnotes.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-300 hover:text-white rounded-lg border border-slate-600 hover:border-slate-400"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(format, messageIds)}
+              disabled={messageIds.length === 0}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationExport;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Conversation, searchConversations, sortConversations } from '../utils/conversations';
+
+interface ConversationHistoryProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onPin: (conversationId: string, pinned: boolean) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+const ACTION_CLASS = 'p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700 transition-colors';
+
+// Last activity as "just now", "5m ago", "3h ago", "2d ago" or a date
+const formatActivity = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({
+  conversations, activeId, onSelect, onNew, onRename, onPin, onDelete
+}) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const matches = searchConversations(sortConversations(conversations), query);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) onRename(editingId, title);
+    setEditingId(null);
+  };
+
+  if (isCollapsed) {
+    return (
+      <aside className="shrink-0 h-full flex flex-col items-center gap-2 py-4 px-1 bg-slate-900 border-r border-slate-800">
+        <button onClick={() => setIsCollapsed(false)} className={ACTION_CLASS} title="Show conversations">💬</button>
+        <button onClick={onNew} className={ACTION_CLASS} title="New conversation">＋</button>
+      </aside>
+    );
+  }
+
+  return (
+    <aside className="w-64 shrink-0 h-full flex flex-col bg-slate-900 border-r border-slate-800">
+      <div className="p-3 space-y-2 border-b border-slate-800">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Conversations</h3>
+          <button onClick={() => setIsCollapsed(true)} className={ACTION_CLASS} title="Hide conversations">«</button>
+        </div>
+        <button
+          onClick={onNew}
+          className="w-full px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+        >
+          ＋ New conversation
+        </button>
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search conversations"
+          className="w-full bg-slate-800 border border-slate-700 text-slate-100 text-sm rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {matches.length === 0 && (
+          <p className="px-2 py-4 text-xs text-slate-500 text-center">No conversations match "{query}"</p>
+        )}
+        {matches.map(({ conversation, snippet }) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-start gap-1 px-2 py-1.5 rounded-md ${conversation.id === activeId ? 'bg-blue-600/20' : 'hover:bg-slate-800'}`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 bg-slate-800 border border-blue-500 text-slate-100 text-sm rounded px-2 py-0.5 focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => conversation.id !== activeId && onSelect(conversation.id)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="block text-sm text-slate-200 truncate">
+                  {conversation.pinned && '📌 '}{conversation.title}
+                </span>
+                {snippet && <span className="block text-[11px] text-slate-400 line-clamp-2">{snippet}</span>}
+                <span className="block text-[11px] text-slate-500">{formatActivity(conversation.updatedAt)}</span>
+              </button>
+            )}
+            <div className="flex items-center shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => startRename(conversation)} className={ACTION_CLASS} title="Rename">✏️</button>
+              <button onClick={() => onPin(conversation.id, !conversation.pinned)} className={ACTION_CLASS} title={conversation.pinned ? 'Unpin' : 'Pin'}>
+                📌
+              </button>
+              <button onClick={() => onDelete(conversation.id)} className={`${ACTION_CLASS} hover:text-red-400`} title="Delete">🗑️</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationHistory;
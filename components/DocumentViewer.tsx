@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DocumentFile } from '../types';
+import { formatFileSize } from '../utils/fileProcessor';
+
+export interface ViewerTarget {
+  docId: string;
+  start?: number;
+  end?: number;
+  query?: string;
+}
+
+interface DocumentViewerProps {
+  document: DocumentFile;
+  target: ViewerTarget;
+  onClose: () => void;
+}
+
+interface Page {
+  number?: number; // original page number; undefined for unpaged documents
+  start: number;
+  end: number;
+}
+
+interface Highlight {
+  start: number;
+  end: number;
+  kind: 'target' | 'match' | 'active';
+}
+
+// Cap on find results so a one-letter query cannot stall rendering
+const MAX_MATCHES = 1000;
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, target, onClose }) => {
+  const content = doc.content;
+  const [query, setQuery] = useState(target.query || '');
+  const [activeMatch, setActiveMatch] = useState(-1);
+  const [pageIndex, setPageIndex] = useState(0);
+  const focusRef = useRef<HTMLElement>(null);
+
+  const pages: Page[] = useMemo(() => {
+    if (!doc.pageOffsets || doc.pageOffsets.length === 0) {
+      return [{ start: 0, end: content.length }];
+    }
+    return doc.pageOffsets.map((start, i) => ({
+      number: i + 1,
+      start,
+      end: doc.pageOffsets![i + 1] ?? content.length
+    }));
+  }, [doc, content]);
+
+  const pageOf = (offset: number) => {
+    const index = pages.findIndex(p => offset >= p.start && offset < p.end);
+    return index >= 0 ? index : pages.length - 1;
+  };
+
+  const matches = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (term.length < 2) return [];
+    const haystack = content.toLowerCase();
+    const found: number[] = [];
+    let index = haystack.indexOf(term);
+    while (index !== -1 && found.length < MAX_MATCHES) {
+      found.push(index);
+      index = haystack.indexOf(term, index + term.length);
+    }
+    return found;
+  }, [content, query]);
+
+  // Jump to the requested span whenever the viewer is (re)targeted
+  useEffect(() => {
+    setQuery(target.query || '');
+    setActiveMatch(-1);
+    setPageIndex(target.start !== undefined ? pageOf(target.start) : 0);
+  }, [target, pages]);
+
+  useEffect(() => {
+    focusRef.current?.scrollIntoView({ block: 'center' });
+  }, [pageIndex, activeMatch, target]);
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveMatch(wrapped);
+    setPageIndex(pageOf(matches[wrapped]));
+  };
+
+  const page = pages[pageIndex];
+  const termLength = query.trim().length;
+
+  // Highlights inside the current page, target span first so it wins overlaps
+  const highlights: Highlight[] = [];
+  if (target.start !== undefined && target.end !== undefined && target.end > target.start) {
+    highlights.push({ start: target.start, end: target.end, kind: 'target' });
+  }
+  matches.forEach((start, i) => {
+    highlights.push({ start, end: start + termLength, kind: i === activeMatch ? 'active' : 'match' });
+  });
+
+  const segments: React.ReactNode[] = [];
+  let cursor = page.start;
+  highlights
+    .filter(h => h.end > page.start && h.start < page.end)
+    .sort((a, b) => a.start - b.start || (a.kind === 'target' ? -1 : 1))
+    .forEach(h => {
+      const start = Math.max(h.start, page.start, cursor);
+      const end = Math.min(h.end, page.end);
+      if (end <= start) return;
+      segments.push(content.slice(cursor, start));
+      const isFocus = h.kind === 'active' || (h.kind === 'target' && activeMatch === -1);
+      segments.push(
+        <mark
+          key={`${h.kind}-${h.start}`}
+          ref={isFocus ? focusRef : undefined}
+          className={
+            h.kind === 'target'
+              ? 'bg-amber-400/30 text-slate-100 rounded px-0.5'
+              : h.kind === 'active'
+                ? 'bg-orange-500 text-white rounded px-0.5'
+                : 'bg-yellow-400/40 text-slate-100 rounded px-0.5'
+          }
+        >
+          {content.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+  segments.push(content.slice(cursor, page.end));
+
+  return (
+    <aside className="w-[36rem] max-w-full h-full border-l border-slate-800 bg-slate-900 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-slate-800 flex items-start justify-between gap-3">
+        <div className="overflow-hidden">
+          <h3 className="text-sm font-semibold text-slate-100 truncate">{doc.name}</h3>
+          <p className="text-xs text-slate-500">
+            {formatFileSize(doc.size)}
+            {page.number !== undefined && ` · ${pages.length} pages`}
+            {doc.version && ` · v${doc.version}${doc.archived ? ' (inactive)' : ''}`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          title="Close viewer"
+          className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Find bar */}
+      <div className="px-4 py-2 border-b border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveMatch(-1);
+          }}
+          onKeyDown={e => {
+            if (e.key === 'Enter') goToMatch(e.shiftKey ? activeMatch - 1 : activeMatch + 1);
+          }}
+          placeholder="Find in document..."
+          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        <span className="text-xs text-slate-400 w-16 text-center">
+          {matches.length > 0 ? `${activeMatch >= 0 ? activeMatch + 1 : 0}/${matches.length}${matches.length >= MAX_MATCHES ? '+' : ''}` : '0/0'}
+        </span>
+        <button
+          onClick={() => goToMatch(activeMatch - 1)}
+          disabled={matches.length === 0}
+          title="Previous match (Shift+Enter)"
+          className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </button>
+        <button
+          onClick={() => goToMatch(activeMatch + 1)}
+          disabled={matches.length === 0}
+          title="Next match (Enter)"
+          className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Text */}
+      <div className="flex-1 overflow-y-auto p-6">
+        {page.number !== undefined && (
+          <p className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest mb-3">Page {page.number}</p>
+        )}
+        <div className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap break-words">{segments}</div>
+      </div>
+
+      {/* Pager */}
+      {pages.length > 1 && (
+        <div className="p-3 border-t border-slate-800 flex items-center justify-between">
+          <button
+            onClick={() => setPageIndex(i => Math.max(0, i - 1))}
+            disabled={pageIndex === 0}
+            className="px-3 py-1 text-xs rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            ← Previous
+          </button>
+          <select
+            value={pageIndex}
+            onChange={e => setPageIndex(parseInt(e.target.value, 10))}
+            className="bg-slate-800 text-slate-200 text-xs rounded px-2 py-1 border border-slate-700 focus:outline-none"
+          >
+            {pages.map((p, i) => (
+              <option key={i} value={i}>Page {p.number} of {pages.length}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setPageIndex(i => Math.min(pages.length - 1, i + 1))}
+            disabled={pageIndex === pages.length - 1}
+            className="px-3 py-1 text-xs rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default DocumentViewer;
@@ -2,26 +2,58 @@
 import React from 'react';
 import { DocumentFile } from '../types';
 import { formatFileSize } from '../utils/fileProcessor';
+import { LOW_CONFIDENCE_THRESHOLD } from '../utils/ocr';
 
 interface FileItemProps {
   doc: DocumentFile;
   onRemove: (id: string) => void;
   onSummarize: (doc: DocumentFile) => void;
+  onOpen?: (doc: DocumentFile) => void;
+  onShowVersions?: (doc: DocumentFile) => void;
   isProcessing: boolean;
 }
 
-const FileItem: React.FC<FileItemProps> = ({ doc, onRemove, onSummarize, isProcessing }) => {
+const FileItem: React.FC<FileItemProps> = ({ doc, onRemove, onSummarize, onOpen, onShowVersions, isProcessing }) => {
+  const lowQualityPages = (doc.ocrPages || []).filter(p => p.confidence < LOW_CONFIDENCE_THRESHOLD);
+
   return (
     <div className="flex items-center justify-between p-3 bg-slate-800/50 border border-slate-700 rounded-lg group hover:border-blue-500/50 transition-colors">
-      <div className="flex items-center space-x-3 overflow-hidden">
+      <div
+        className="flex items-center space-x-3 overflow-hidden cursor-pointer"
+        onClick={() => onOpen?.(doc)}
+        title="Open document"
+      >
         <div className="bg-blue-500/10 p-2 rounded text-blue-400">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
           </svg>
         </div>
         <div className="overflow-hidden">
-          <p className="text-sm font-medium text-slate-200 truncate">{doc.name}</p>
-          <p className="text-xs text-slate-400">{formatFileSize(doc.size)}</p>
+          <p className="text-sm font-medium text-slate-200 truncate" title={doc.path || doc.name}>{doc.name}</p>
+          <p className="text-xs text-slate-400">
+            {formatFileSize(doc.size)}
+            {doc.ocrPages && doc.ocrPages.length > 0 && ' · OCR'}
+            {doc.version && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowVersions?.(doc);
+                }}
+                title="Version history"
+                className="ml-1 text-blue-400 hover:text-blue-300"
+              >
+                · v{doc.version}
+              </button>
+            )}
+          </p>
+          {lowQualityPages.length > 0 && (
+            <p
+              className="text-[10px] text-amber-400"
+              title={lowQualityPages.map(p => `Page ${p.page}: ${Math.round(p.confidence)}% confidence`).join('\n')}
+            >
+              ⚠ Low OCR quality{doc.pageOffsets ? ` on p. ${lowQualityPages.map(p => p.page).join(', ')}` : ''}
+            </p>
+          )}
         </div>
       </div>
       <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
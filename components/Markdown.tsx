@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { MdBlock, MdInline, parseMarkdown, TableAlign } from '../utils/markdown';
+import { CodeTokenKind, highlightCode } from '../utils/syntaxHighlight';
+import { MathNode, parseTex } from '../utils/texMath';
+
+// A range of the source text to mark, e.g. a sentence the sources do not support
+export interface TextHighlight {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+interface MarkdownProps {
+  text: string;
+  highlights?: TextHighlight[];
+}
+
+const TOKEN_CLASS: Record<CodeTokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-purple-300',
+  literal: 'text-sky-300'
+};
+
+const HEADING_CLASS = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+const ALIGN_CLASS: Record<string, string> = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const alignClass = (align: TableAlign) => (align ? ALIGN_CLASS[align] : 'text-left');
+
+const CodeBlock: React.FC<{ code: string; lang: string }> = ({ code, lang }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('[Markdown] Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg border border-slate-700 bg-slate-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 bg-slate-900 border-b border-slate-700 text-[11px] text-slate-400">
+        <span>{lang || 'code'}</span>
+        <button onClick={copy} className="px-1.5 py-0.5 rounded hover:bg-slate-700 hover:text-slate-200 transition-colors" title="Copy code">
+          {copied ? '✓ Copied' : '⧉ Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed text-slate-200">
+        <code>
+          {tokens.map((token, i) => (token.kind === 'plain' ? token.text : <span key={i} className={TOKEN_CLASS[token.kind]}>{token.text}</span>))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const renderMath = (nodes: MathNode[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    if (typeof node === 'string') return node;
+    switch (node.type) {
+      case 'sup':
+        return <sup key={i}>{renderMath(node.children)}</sup>;
+      case 'sub':
+        return <sub key={i}>{renderMath(node.children)}</sub>;
+      case 'sqrt':
+        return <span key={i}>√<span className="border-t border-current">{renderMath(node.children)}</span></span>;
+      case 'frac':
+        return (
+          <span key={i} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.85em] leading-tight">
+            <span className="px-0.5">{renderMath(node.numerator)}</span>
+            <span className="px-0.5 border-t border-current">{renderMath(node.denominator)}</span>
+          </span>
+        );
+    }
+  });
+
+const Markdown: React.FC<MarkdownProps> = ({ text, highlights = [] }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  const marks = useMemo(() => [...highlights].sort((a, b) => a.start - b.start), [highlights]);
+
+  // Plain text, with the parts inside highlighted ranges marked
+  const renderText = (value: string, start: number, key: number): React.ReactNode => {
+    const end = start + value.length;
+    const overlapping = marks.filter(m => m.start < end && m.end > start);
+    if (overlapping.length === 0) return value;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = start;
+    overlapping.forEach((mark, i) => {
+      const from = Math.max(mark.start, cursor);
+      const to = Math.min(mark.end, end);
+      if (from > cursor) parts.push(value.slice(cursor - start, from - start));
+      if (to > from) {
+        parts.push(
+          <span
+            key={i}
+            title={mark.title}
+            className="underline decoration-wavy decoration-amber-400/80 underline-offset-4 bg-amber-500/10 rounded"
+          >
+            {value.slice(from - start, to - start)}
+          </span>
+        );
+      }
+      cursor = Math.max(cursor, to);
+    });
+    if (cursor < end) parts.push(value.slice(cursor - start));
+    return <React.Fragment key={key}>{parts}</React.Fragment>;
+  };
+
+  const renderInline = (nodes: MdInline[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text':
+          return renderText(node.text, node.start, i);
+        case 'strong':
+          return <strong key={i} className="font-semibold text-slate-100">{renderInline(node.children)}</strong>;
+        case 'em':
+          return <em key={i}>{renderInline(node.children)}</em>;
+        case 'del':
+          return <del key={i} className="opacity-70">{renderInline(node.children)}</del>;
+        case 'code':
+          return <code key={i} className="px-1 py-0.5 rounded bg-slate-900/80 border border-slate-700 text-[0.85em] text-sky-200">{node.text}</code>;
+        case 'math':
+          return <span key={i} className="font-serif italic">{renderMath(parseTex(node.tex))}</span>;
+        case 'link':
+          return (
+            <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline underline-offset-2 break-words">
+              {renderInline(node.children)}
+            </a>
+          );
+        case 'break':
+          return <br key={i} />;
+      }
+    });
+
+  const renderBlocks = (items: MdBlock[]): React.ReactNode[] =>
+    items.map((block, i) => {
+      switch (block.type) {
+        case 'paragraph':
+          return <p key={i} className="my-2 first:mt-0 last:mb-0">{renderInline(block.children)}</p>;
+        case 'heading': {
+          const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+          return <Tag key={i} className={`${HEADING_CLASS[block.level - 1]} text-slate-100 mt-3 mb-1 first:mt-0`}>{renderInline(block.children)}</Tag>;
+        }
+        case 'code':
+          return <CodeBlock key={i} code={block.text} lang={block.lang} />;
+        case 'math':
+          return <div key={i} className="my-2 text-center font-serif italic overflow-x-auto">{renderMath(parseTex(block.tex))}</div>;
+        case 'list': {
+          const Tag = block.ordered ? 'ol' : 'ul';
+          return (
+            <Tag key={i} start={block.ordered ? block.start : undefined} className={`my-2 pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-slate-500`}>
+              {block.items.map((item, j) => (
+                // A tight item is a single paragraph, shown without paragraph spacing
+                <li key={j}>{item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children) : renderBlocks(item)}</li>
+              ))}
+            </Tag>
+          );
+        }
+        case 'quote':
+          return <blockquote key={i} className="my-2 pl-3 border-l-2 border-slate-600 text-slate-400">{renderBlocks(block.children)}</blockquote>;
+        case 'table':
+          return (
+            <div key={i} className="my-2 overflow-x-auto rounded-lg border border-slate-700">
+              <table className="min-w-full text-xs border-collapse">
+                <thead className="bg-slate-900/60">
+                  <tr>
+                    {block.header.map((cell, c) => (
+                      <th key={c} className={`px-3 py-1.5 font-semibold text-slate-100 border-b border-slate-700 ${alignClass(block.align[c])}`}>{renderInline(cell)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r} className="odd:bg-slate-800 even:bg-slate-900/30">
+                      {row.map((cell, c) => (
+                        <td key={c} className={`px-3 py-1.5 border-t border-slate-700/60 align-top ${alignClass(block.align[c])}`}>{renderInline(cell)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'rule':
+          return <hr key={i} className="my-3 border-slate-700" />;
+      }
+    });
+
+  return <div className="text-sm leading-relaxed break-words">{renderBlocks(blocks)}</div>;
+};
+
+const sameHighlights = (a: TextHighlight[] = [], b: TextHighlight[] = []) =>
+  a.length === b.length && a.every((h, i) => h.start === b[i].start && h.end === b[i].end && h.title === b[i].title);
+
+// Only re-rendered when its own text changes, so streaming one answer leaves the others alone
+export default React.memo(Markdown, (prev: MarkdownProps, next: MarkdownProps) =>
+  prev.text === next.text && sameHighlights(prev.highlights, next.highlights)
+);
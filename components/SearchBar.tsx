@@ -1,12 +1,13 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { DocumentFile } from '../types';
 import { SearchService, SearchResult, DocumentTag } from '../utils/searchService';
 import { Lang, translations } from '../utils/i18n';
+import { MessageFilter, isFilterEmpty, parseFilterDate, parseMessageFilter } from '../utils/messageFilter';
 
 interface SearchBarProps {
   documents: DocumentFile[];
   lang: Lang;
-  onSearch: (results: SearchResult[]) => void;
+  onSearch: (results: SearchResult[], query: string) => void;
   onTagSelect: (tagName: string | null) => void;
 }
 
@@ -17,17 +18,54 @@ const SearchBar: React.FC<SearchBarProps> = ({ documents, lang, onSearch, onTagS
   const [showTagPanel, setShowTagPanel] = useState(false);
   const [newTagName, setNewTagName] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  // Sender and date-range inputs, shown once mail or chat exports are loaded
+  const [sender, setSender] = useState('');
+  const [afterDate, setAfterDate] = useState('');
+  const [beforeDate, setBeforeDate] = useState('');
 
-  const handleSearch = (searchQuery: string) => {
-    setQuery(searchQuery);
-    if (searchQuery.trim()) {
-      const results = SearchService.searchDocuments(documents, searchQuery, selectedTags);
-      setSearchResults(results);
-      onSearch(results);
-    } else {
+  const hasMessages = documents.some(doc => doc.messages && doc.messages.length > 0);
+
+  // Searches are async; only the most recent one may update results
+  const latestSearch = useRef(0);
+
+  const runSearch = async (searchQuery: string, tags: string[], filter: MessageFilter) => {
+    const searchId = ++latestSearch.current;
+    const { text, filter: typedFilter } = parseMessageFilter(searchQuery);
+    if (!text && isFilterEmpty(typedFilter) && isFilterEmpty(filter)) {
       setSearchResults([]);
-      onSearch([]);
+      onSearch([], searchQuery);
+      return;
     }
+    try {
+      const results = await SearchService.searchDocuments(documents, searchQuery, tags, filter);
+      if (searchId !== latestSearch.current) return;
+      setSearchResults(results);
+      // Operators are not part of the text to highlight
+      onSearch(results, text);
+    } catch (error) {
+      console.error('Search failed:', error);
+    }
+  };
+
+  const currentFilter = (changes: { sender?: string; after?: string; before?: string } = {}): MessageFilter => {
+    const values = { sender, after: afterDate, before: beforeDate, ...changes };
+    return {
+      sender: values.sender.trim() || undefined,
+      after: values.after ? parseFilterDate(values.after) : undefined,
+      before: values.before ? parseFilterDate(values.before, true) : undefined
+    };
+  };
+
+  const handleSearch = (searchQuery: string) => {
+    setQuery(searchQuery);
+    runSearch(searchQuery, selectedTags, currentFilter());
+  };
+
+  const handleFilterChange = (changes: { sender?: string; after?: string; before?: string }) => {
+    if (changes.sender !== undefined) setSender(changes.sender);
+    if (changes.after !== undefined) setAfterDate(changes.after);
+    if (changes.before !== undefined) setBeforeDate(changes.before);
+    runSearch(query, selectedTags, currentFilter(changes));
   };
 
   const toggleTag = (tagName: string) => {
@@ -37,9 +75,7 @@ const SearchBar: React.FC<SearchBarProps> = ({ documents, lang, onSearch, onTagS
     setSelectedTags(updated);
     
     if (query.trim()) {
-      const results = SearchService.searchDocuments(documents, query, updated);
-      setSearchResults(results);
-      onSearch(results);
+      runSearch(query, updated, currentFilter());
     }
   };
 
@@ -76,6 +112,39 @@ const SearchBar: React.FC<SearchBarProps> = ({ documents, lang, onSearch, onTagS
             </button>
           </div>
 
+          {/* Message Filters: sender and date range for mail and chat exports */}
+          {hasMessages && (
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Sender"
+                  value={sender}
+                  onChange={(e) => handleFilterChange({ sender: e.target.value })}
+                  className="flex-1 min-w-[8rem] bg-slate-700/50 border border-slate-600/50 rounded-lg px-3 py-1.5 text-white placeholder-slate-400 text-xs focus:outline-none focus:border-blue-500 transition-colors"
+                />
+                <input
+                  type="date"
+                  title="Sent on or after"
+                  value={afterDate}
+                  onChange={(e) => handleFilterChange({ after: e.target.value })}
+                  className="bg-slate-700/50 border border-slate-600/50 rounded-lg px-2 py-1.5 text-slate-200 text-xs focus:outline-none focus:border-blue-500 transition-colors"
+                />
+                <span className="text-xs text-slate-500">to</span>
+                <input
+                  type="date"
+                  title="Sent on or before"
+                  value={beforeDate}
+                  onChange={(e) => handleFilterChange({ before: e.target.value })}
+                  className="bg-slate-700/50 border border-slate-600/50 rounded-lg px-2 py-1.5 text-slate-200 text-xs focus:outline-none focus:border-blue-500 transition-colors"
+                />
+              </div>
+              <p className="text-[10px] text-slate-500">
+                Or type <code>from:alice</code>, <code>after:2024-01-01</code>, <code>before:2024-03-31</code> in the search box or a chat question.
+              </p>
+            </div>
+          )}
+
           {/* Tag Filter Buttons */}
           {allTags.length > 0 && (
             <div className="flex flex-wrap gap-2">
@@ -160,10 +229,20 @@ const SearchBar: React.FC<SearchBarProps> = ({ documents, lang, onSearch, onTagS
         )}
 
         {/* Search Statistics Footer */}
-        {query && (
+        {(query || !isFilterEmpty(currentFilter())) && (
           <div className="px-4 py-3 bg-slate-900/20 border-t border-slate-700/30">
             <p className="text-xs text-slate-400">
               <span className="font-semibold text-slate-300">Search Term:</span> "{query}"
+              {sender.trim() && (
+                <span className="ml-2">
+                  <span className="font-semibold text-slate-300">From:</span> {sender.trim()}
+                </span>
+              )}
+              {(afterDate || beforeDate) && (
+                <span className="ml-2">
+                  <span className="font-semibold text-slate-300">Dates:</span> {afterDate || '…'} – {beforeDate || '…'}
+                </span>
+              )}
               {selectedTags.length > 0 && (
                 <span className="ml-2">
                   <span className="font-semibold text-slate-300">Tags:</span> {selectedTags.join(', ')}
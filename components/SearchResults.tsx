@@ -4,7 +4,7 @@ import { SearchService, SearchResult } from '../utils/searchService';
 interface SearchResultsProps {
   results: SearchResult[];
   query: string;
-  onResultClick?: (docId: string) => void;
+  onResultClick?: (docId: string, offset: number) => void;
 }
 
 const SearchResults: React.FC<SearchResultsProps> = ({ results, query, onResultClick }) => {
@@ -21,7 +21,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results, query, onResultC
       {results.map((result) => (
         <div
           key={result.docId}
-          onClick={() => onResultClick?.(result.docId)}
+          onClick={() => onResultClick?.(result.docId, result.matchOffset)}
           className="bg-slate-700/40 border border-slate-600 hover:border-blue-500/50 rounded-lg p-3 cursor-pointer transition-all hover:bg-slate-700/60 group"
         >
           {/* Document Name & Match Count */}
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { settingsService, WorkspaceSettings, DEFAULT_SETTINGS } from '../utils/settingsService';
+import { ProviderKind } from '../services/llmProvider';
+import { OcrLanguage } from '../utils/ocr';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: WorkspaceSettings) => void;
+}
+
+const MODEL_SUGGESTIONS: Record<ProviderKind, string[]> = {
+  gemini: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+  openai: ['llama3.1', 'qwen2.5', 'mistral'],
+  mock: ['mock-model']
+};
+
+const EMBEDDING_SUGGESTIONS: Record<ProviderKind, string> = {
+  gemini: 'text-embedding-004',
+  openai: 'nomic-embed-text',
+  mock: 'local-hash'
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }) => {
+  const [settings, setSettings] = useState<WorkspaceSettings>(settingsService.getSettings());
+
+  // Reload whenever the panel opens so it reflects the active workspace
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(settingsService.getSettings());
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof WorkspaceSettings>(key: K, value: WorkspaceSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const changeProvider = (provider: ProviderKind) => {
+    setSettings(prev => ({
+      ...prev,
+      provider,
+      model: MODEL_SUGGESTIONS[provider][0],
+      embeddingModel: EMBEDDING_SUGGESTIONS[provider]
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-slate-800/80 backdrop-blur border-b border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white">⚙️ Model Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Provider</label>
+            <select
+              value={settings.provider}
+              onChange={e => changeProvider(e.target.value as ProviderKind)}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            >
+              <option value="gemini">Google Gemini</option>
+              <option value="openai">OpenAI-compatible (llama.cpp, Ollama)</option>
+              <option value="mock">Mock (offline, deterministic)</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Model</label>
+            <input
+              type="text"
+              list="model-suggestions"
+              value={settings.model}
+              onChange={e => update('model', e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            />
+            <datalist id="model-suggestions">
+              {MODEL_SUGGESTIONS[settings.provider].map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Temperature</label>
+              <span className="text-sm font-bold text-blue-400">{settings.temperature.toFixed(1)}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={settings.temperature}
+              onChange={e => update('temperature', parseFloat(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-xs text-slate-500">Lower values keep answers closer to the source documents.</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Embedding Model</label>
+            <input
+              type="text"
+              value={settings.embeddingModel}
+              onChange={e => update('embeddingModel', e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            />
+            <p className="text-xs text-slate-500">
+              Changing the embedder re-indexes your documents.
+              {settings.provider === 'openai' && ' Leave it empty to embed locally if the server has no embeddings endpoint.'}
+            </p>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.verifyWithModel}
+              onChange={e => update('verifyWithModel', e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm text-slate-200">Model-based answer verification</span>
+              <span className="block text-xs text-slate-500">
+                Sends an extra request to check sentences that keyword overlap could not confirm.
+              </span>
+            </span>
+          </label>
+
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">OCR Language</label>
+            <select
+              value={settings.ocrLanguage}
+              onChange={e => update('ocrLanguage', e.target.value as OcrLanguage)}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            >
+              <option value="auto">Auto-detect</option>
+              <option value="en">English</option>
+              <option value="hi">Hindi</option>
+              <option value="es">Spanish</option>
+            </select>
+            <p className="text-xs text-slate-500">Used for images and scanned PDF pages.</p>
+          </div>
+
+          {settings.provider === 'openai' && (
+            <>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Server URL</label>
+                <input
+                  type="text"
+                  value={settings.baseUrl}
+                  onChange={e => update('baseUrl', e.target.value)}
+                  placeholder={DEFAULT_SETTINGS.baseUrl}
+                  className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">API Key (optional)</label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={e => update('apiKey', e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={() => setSettings({ ...DEFAULT_SETTINGS })}
+              className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+            >
+              Reset to defaults
+            </button>
+            <button
+              onClick={() => onSave(settings)}
+              disabled={!settings.model.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
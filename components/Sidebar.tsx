@@ -1,88 +1,85 @@
 
-import React, { useRef, useState } from 'react';
-import { translations, Lang, detectLanguage, translateToEnglish } from '../utils/i18n';
+import React, { useEffect, useRef, useState } from 'react';
+import { translations, Lang } from '../utils/i18n';
 import { DocumentFile } from '../types';
-import { readFileAsText, readPDFAsText, readImageAsText, generateId } from '../utils/fileProcessor';
+import { ingestionQueue, IngestionJob } from '../utils/ingestionQueue';
+import { expandUploads, fromFileList, CollectedUploads } from '../utils/dropImport';
+import { SUPPORTED_EXTENSIONS } from '../utils/fileProcessor';
+import { activeDocuments, setActiveVersion, versionsOf } from '../utils/versioning';
+import { removeDocumentData } from '../utils/workspaces';
 import { SearchService, SearchResult } from '../utils/searchService';
 import { useAuth } from '../contexts/AuthContext';
 import FileItem from './FileItem';
 import SearchBar from './SearchBar';
 import SearchResults from './SearchResults';
+import UploadQueue from './UploadQueue';
+import VersionHistory from './VersionHistory';
+import StorageMeter from './StorageMeter';
+import { ViewerTarget } from './DocumentViewer';
 
 interface SidebarProps {
   documents: DocumentFile[];
   onDocumentsChange: (docs: DocumentFile[]) => void;
+  onUpload: (uploads: CollectedUploads) => void;
   onSummarize: (docs: DocumentFile[]) => void;
   isProcessing: boolean;
   lang: Lang;
   setLang: (lang: Lang) => void;
   onClearHistory?: () => void;
   onShowAnalytics?: () => void;
+  onShowSettings?: () => void;
   onClearError?: () => void;
+  onOpenDocument?: (target: ViewerTarget) => void;
+  workspaceSwitcher?: React.ReactNode; // rendered under the header
+  onManageStorage?: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSummarize, isProcessing, lang, setLang, onClearHistory, onShowAnalytics, onClearError }) => {
+const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onUpload, onSummarize, isProcessing, lang, setLang, onClearHistory, onShowAnalytics, onShowSettings, onClearError, onOpenDocument, workspaceSwitcher, onManageStorage }) => {
   const { user, logout } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [uploading, setUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [uploadInfo, setUploadInfo] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [jobs, setJobs] = useState<IngestionJob[]>(ingestionQueue.getJobs());
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [historyDocId, setHistoryDocId] = useState<string | null>(null);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files) return;
-    setUploading(true);
-    setUploadError(null);
+  useEffect(() => ingestionQueue.subscribe(setJobs), []);
 
-    const newDocs: DocumentFile[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      let text = "";
-      try {
-        if (file.type === "application/pdf") {
-          text = await readPDFAsText(file);
-        } else if (file.type.startsWith("image/")) {
-          text = await readImageAsText(file);
-        } else {
-          text = await readFileAsText(file);
-        }
-        // Detect language and translate if needed
-        const detectedLang = await detectLanguage(text);
-        let processedText = text;
-        if (detectedLang !== 'en') {
-          setUploadInfo(`${translations[lang].languageDetected}${detectedLang}`);
-          processedText = await translateToEnglish(text, detectedLang);
-          setUploadInfo(translations[lang].translated);
-        }
-        newDocs.push({
-          id: generateId(),
-          name: file.name,
-          content: processedText,
-          size: file.size,
-          type: file.type,
-          uploadDate: Date.now()
-        });
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : String(err);
-        setUploadError(`Error reading file ${file.name}: ${errorMsg}`);
-        console.error(`Error reading file ${file.name}:`, err);
-      }
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target as HTMLInputElement;
+    if (!input.files) return;
+    // Archives are expanded here; parsing, OCR and chunking run in the ingestion worker
+    const uploads = fromFileList(input.files);
+    input.value = '';
+    try {
+      onUpload(await expandUploads(uploads));
+    } catch (err) {
+      console.error('Failed to read selected files:', err);
     }
-
-    onDocumentsChange([...documents, ...newDocs]);
-    setUploading(false);
-    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Only the active version of each document is listed and searched
+  const activeDocs = activeDocuments(documents);
+  const historyDoc = historyDocId ? documents.find(d => d.id === historyDocId) : undefined;
+
+  // Documents imported from folders or archives are listed under their folder
+  const folders = new Map<string, DocumentFile[]>();
+  activeDocs.forEach(doc => {
+    const folder = doc.path && doc.path.includes('/') ? doc.path.slice(0, doc.path.lastIndexOf('/')) : '';
+    folders.set(folder, [...(folders.get(folder) || []), doc]);
+  });
+  const groupedDocuments = [...folders.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+  // Removing a document removes all of its versions
   const removeDocument = (id: string) => {
-    const remainingDocs = documents.filter(doc => doc.id !== id);
-    onDocumentsChange(remainingDocs);
-    // Only clear info if no documents are left
-    if (remainingDocs.length === 0) {
-      setUploadInfo(null);
-    }
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return;
+    const ids = versionsOf(documents, doc).map(d => d.id);
+    onDocumentsChange(documents.filter(d => !ids.includes(d.id)));
+    removeDocumentData(ids).catch(err => {
+      console.error(`Failed to remove stored data for document ${id}:`, err);
+    });
   };
 
   return (
@@ -117,6 +114,27 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
                 />
               </svg>
             </button>
+            <button
+              onClick={onShowSettings}
+              className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-blue-400"
+              title="Model settings"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
             <select
               className="bg-slate-800 text-slate-200 text-xs rounded px-2 py-1 border border-slate-700 focus:outline-none"
               value={lang}
@@ -149,16 +167,20 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
           </div>
         </div>
         <p className="text-sm text-slate-400 mt-1">{translations[lang].manageKnowledge}</p>
+        {workspaceSwitcher}
       </div>
 
       <div className="p-6 overflow-y-auto flex-1 space-y-4">
         {/* Search & Filter Section */}
-        {documents.length > 0 && (
+        {activeDocs.length > 0 && (
           <div className="space-y-2">
             <SearchBar
-              documents={documents}
+              documents={activeDocs}
               lang={lang}
-              onSearch={setSearchResults}
+              onSearch={(results, query) => {
+                setSearchResults(results);
+                setSearchQuery(query);
+              }}
               onTagSelect={setSelectedTags}
             />
           </div>
@@ -172,44 +194,29 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
             </p>
             <SearchResults
               results={searchResults}
-              query=""
-              onResultClick={(docId) => {
-                const doc = documents.find(d => d.id === docId);
-                if (doc) {
-                  // Could highlight or focus the document
-                }
+              query={searchQuery}
+              onResultClick={(docId, offset) => {
+                onOpenDocument?.({ docId, start: offset, end: offset, query: searchQuery });
               }}
             />
           </div>
         )}
 
-        {uploading && (
-          <div className="mb-2 text-blue-400 text-xs flex items-center">
-            <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
-              <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-              <path d="M2 12a10 10 0 0110-10" stroke="currentColor" strokeWidth="4" fill="none" />
-            </svg>
-            {translations[lang].uploading}
-          </div>
-        )}
-        {uploadInfo && (
-          <div className="mb-2 text-blue-400 text-xs bg-blue-500/10 p-2 rounded border border-blue-500/30">
-            {uploadInfo}
-          </div>
-        )}
-        {uploadError && (
-          <div className="mb-2 text-red-400 text-xs bg-red-500/10 p-2 rounded border border-red-500/30">
-            {uploadError}
-          </div>
-        )}
+        <UploadQueue
+          jobs={jobs}
+          lang={lang}
+          onCancel={jobId => ingestionQueue.cancel(jobId)}
+          onRetry={jobId => ingestionQueue.retry(jobId)}
+          onDismiss={jobId => ingestionQueue.dismiss(jobId)}
+        />
         <div className="flex flex-col space-y-4">
           <div className="flex items-center justify-between">
             <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
-              {translations[lang].yourDocuments} ({documents.length})
+              {translations[lang].yourDocuments} ({activeDocs.length})
             </label>
-            {documents.length > 1 && (
+            {activeDocs.length > 1 && (
               <button
-                onClick={() => onSummarize(documents)}
+                onClick={() => onSummarize(activeDocs)}
                 disabled={isProcessing}
                 className="text-[10px] font-bold text-blue-400 hover:text-blue-300 uppercase tracking-tighter flex items-center space-x-1 disabled:opacity-50"
               >
@@ -221,7 +228,7 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
             )}
           </div>
           
-          {documents.length === 0 ? (
+          {activeDocs.length === 0 ? (
             <div className="border-2 border-dashed border-slate-800 rounded-xl p-8 text-center space-y-3">
               <div className="text-slate-600 flex justify-center">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -232,14 +239,30 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
             </div>
           ) : (
             <div className="space-y-2">
-              {documents.map(doc => (
-                <FileItem 
-                  key={doc.id} 
-                  doc={doc} 
-                  onRemove={removeDocument} 
-                  onSummarize={(d) => onSummarize([d])}
-                  isProcessing={isProcessing}
-                />
+              {groupedDocuments.map(([folder, docs]) => (
+                <div key={folder || '(root)'} className="space-y-2">
+                  {folder && (
+                    <p className="text-[11px] text-slate-500 flex items-center gap-1 pt-1 truncate" title={folder}>
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                      </svg>
+                      {folder}
+                    </p>
+                  )}
+                  <div className={folder ? 'space-y-2 pl-3 border-l border-slate-800' : 'space-y-2'}>
+                    {docs.map(doc => (
+                      <FileItem 
+                        key={doc.id} 
+                        doc={doc} 
+                        onRemove={removeDocument} 
+                        onSummarize={(d) => onSummarize([d])}
+                        onOpen={(d) => onOpenDocument?.({ docId: d.id })}
+                        onShowVersions={(d) => setHistoryDocId(d.id)}
+                        isProcessing={isProcessing}
+                      />
+                    ))}
+                  </div>
+                </div>
               ))}
             </div>
           )}
@@ -247,13 +270,13 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
       </div>
 
       <div className="p-6 mt-auto space-y-3">
+        <StorageMeter documents={documents} onManage={onManageStorage} />
         {documents.length > 0 && (
           <button
             onClick={() => {
               onClearHistory?.();
               onClearError?.();
-              setUploadError(null);
-              setUploadInfo(null);
+              ingestionQueue.dismiss();
             }}
             className="w-full flex items-center justify-center space-x-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 hover:text-red-300 font-medium py-2 px-4 rounded-lg transition-all border border-red-600/50 text-sm"
           >
@@ -269,7 +292,15 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
           onChange={handleFileUpload}
           multiple
           className="hidden"
-          accept=".txt,.md,.json,.js,.ts,.tsx,.py,.c,.cpp,.pdf,image/*"
+          accept={[...SUPPORTED_EXTENSIONS, '.zip', 'image/*'].join(',')}
+        />
+        <input
+          type="file"
+          ref={folderInputRef}
+          onChange={handleFileUpload}
+          multiple
+          className="hidden"
+          {...{ webkitdirectory: '' }}
         />
         <button
           onClick={() => fileInputRef.current?.click()}
@@ -281,7 +312,26 @@ const Sidebar: React.FC<SidebarProps> = ({ documents, onDocumentsChange, onSumma
           </svg>
           <span>{translations[lang].addDocuments}</span>
         </button>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isProcessing}
+          className="w-full text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50 transition-colors"
+        >
+          Import a folder, or drop files and .zip archives anywhere
+        </button>
       </div>
+      {historyDoc && (
+        <VersionHistory
+          key={historyDoc.lineageId || historyDoc.id}
+          versions={versionsOf(documents, historyDoc)}
+          onActivate={docId => onDocumentsChange(setActiveVersion(documents, docId))}
+          onOpen={docId => {
+            setHistoryDocId(null);
+            onOpenDocument?.({ docId });
+          }}
+          onClose={() => setHistoryDocId(null)}
+        />
+      )}
     </div>
   );
 };
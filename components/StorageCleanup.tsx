@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentFile } from '../types';
+import { Workspace } from '../utils/storageService';
+import { documentStore, StoredSize } from '../utils/documentStore';
+import { formatFileSize } from '../utils/fileProcessor';
+import { getStorageUsage, isNearlyFull, StorageUsage } from '../utils/storageQuota';
+import { versionLabel } from '../utils/versioning';
+
+interface StorageCleanupProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documents: DocumentFile[]; // the open workspace's library
+  archivedWorkspaces: Workspace[];
+  onDeleteVersions: (docIds: string[]) => Promise<void>;
+  onDeleteWorkspace: (workspaceId: string) => Promise<void>;
+}
+
+const BUTTON_CLASS = 'text-xs px-2 py-1 rounded border transition-colors disabled:opacity-40';
+
+const StorageCleanup: React.FC<StorageCleanupProps> = ({
+  isOpen, onClose, documents, archivedWorkspaces, onDeleteVersions, onDeleteWorkspace
+}) => {
+  const [sizes, setSizes] = useState<Map<string, StoredSize>>(new Map());
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const measure = async () => {
+    const [nextSizes, nextUsage] = await Promise.all([documentStore.getSizes(), getStorageUsage()]);
+    setSizes(nextSizes);
+    setUsage(nextUsage);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      measure().catch(err => console.error('Failed to measure storage:', err));
+    }
+  }, [isOpen, documents, archivedWorkspaces]);
+
+  if (!isOpen) return null;
+
+  // Run one cleanup action, then re-measure
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await measure();
+    } catch (err) {
+      console.error('Storage cleanup failed:', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sizeOf = (docId: string) => sizes.get(docId) || { body: 0, original: 0 };
+  const total = (docIds: string[]) => docIds.reduce((sum, id) => sum + sizeOf(id).body + sizeOf(id).original, 0);
+
+  const byStoredSize = [...documents].sort((a, b) => total([b.id]) - total([a.id]));
+  const withOriginals = documents.filter(d => sizeOf(d.id).original > 0);
+  const originalsSize = withOriginals.reduce((sum, d) => sum + sizeOf(d.id).original, 0);
+  const archivedVersions = documents.filter(d => d.archived);
+
+  const removeOriginals = (docs: DocumentFile[]) => run(async () => {
+    for (const doc of docs) {
+      await documentStore.removeOriginal(doc.id);
+    }
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800/80 backdrop-blur border-b border-slate-700 p-6 flex items-center justify-between rounded-t-2xl">
+          <div>
+            <h2 className="text-2xl font-bold text-white">💾 Storage</h2>
+            {usage && (
+              <p className={`text-sm ${isNearlyFull(usage) ? 'text-amber-300' : 'text-slate-400'}`}>
+                {formatFileSize(usage.usage)} of {formatFileSize(usage.quota)} used by this browser
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Bulk actions */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-slate-200">Original files</p>
+                <p className="text-xs text-slate-400">
+                  {withOriginals.length} kept · {formatFileSize(originalsSize)}. The extracted text stays searchable without them.
+                </p>
+              </div>
+              <button
+                onClick={() => removeOriginals(withOriginals)}
+                disabled={isBusy || withOriginals.length === 0}
+                className={`${BUTTON_CLASS} shrink-0 text-amber-200 border-amber-500/50 hover:bg-amber-600/20`}
+              >
+                Remove all
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-slate-200">Earlier versions</p>
+                <p className="text-xs text-slate-400">
+                  {archivedVersions.length} inactive · {formatFileSize(total(archivedVersions.map(d => d.id)))}
+                </p>
+              </div>
+              <button
+                onClick={() => run(() => onDeleteVersions(archivedVersions.map(d => d.id)))}
+                disabled={isBusy || archivedVersions.length === 0}
+                className={`${BUTTON_CLASS} shrink-0 text-red-300 border-red-500/50 hover:bg-red-600/20`}
+              >
+                Delete all
+              </button>
+            </div>
+          </div>
+
+          {/* Archived workspaces */}
+          {archivedWorkspaces.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Archived workspaces</p>
+              {archivedWorkspaces.map(workspace => (
+                <div key={workspace.id} className="flex items-center justify-between gap-3 px-3 py-2 bg-slate-800/30 rounded-lg">
+                  <p className="text-sm text-slate-300 truncate">
+                    {workspace.name}
+                    <span className="text-xs text-slate-500"> · {formatFileSize(total(workspace.documents.map(d => d.id)))}</span>
+                  </p>
+                  <button
+                    onClick={() => run(() => onDeleteWorkspace(workspace.id))}
+                    disabled={isBusy}
+                    className={`${BUTTON_CLASS} shrink-0 text-red-300 border-red-500/50 hover:bg-red-600/20`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Largest documents */}
+          {byStoredSize.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Documents in this workspace</p>
+              {byStoredSize.map(doc => (
+                <div key={doc.id} className="flex items-center justify-between gap-3 px-3 py-2 bg-slate-800/30 rounded-lg">
+                  <div className="overflow-hidden">
+                    <p className="text-sm text-slate-300 truncate">
+                      {versionLabel(doc)}
+                      {doc.archived && <span className="text-xs text-slate-500"> (inactive)</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      text {formatFileSize(sizeOf(doc.id).body)}
+                      {sizeOf(doc.id).original > 0 && ` · original ${formatFileSize(sizeOf(doc.id).original)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {sizeOf(doc.id).original > 0 && (
+                      <button
+                        onClick={() => removeOriginals([doc])}
+                        disabled={isBusy}
+                        className={`${BUTTON_CLASS} text-slate-300 border-slate-600 hover:border-slate-400`}
+                      >
+                        Remove original
+                      </button>
+                    )}
+                    {doc.archived && (
+                      <button
+                        onClick={() => run(() => onDeleteVersions([doc.id]))}
+                        disabled={isBusy}
+                        className={`${BUTTON_CLASS} text-red-300 border-red-500/50 hover:bg-red-600/20`}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageCleanup;
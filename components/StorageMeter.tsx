@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentFile } from '../types';
+import { formatFileSize } from '../utils/fileProcessor';
+import { getStorageUsage, isNearlyFull, StorageUsage } from '../utils/storageQuota';
+
+interface StorageMeterProps {
+  documents: DocumentFile[]; // re-measured whenever the library changes
+  onManage?: () => void;
+}
+
+// Usage also changes outside the library (other workspaces, cleanup)
+const REFRESH_INTERVAL_MS = 30000;
+
+const StorageMeter: React.FC<StorageMeterProps> = ({ documents, onManage }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    const measure = () => {
+      getStorageUsage()
+        .then(result => isMounted && setUsage(result))
+        .catch(err => console.warn('Failed to estimate storage usage:', err));
+    };
+    measure();
+    const timer = setInterval(measure, REFRESH_INTERVAL_MS);
+    return () => {
+      isMounted = false;
+      clearInterval(timer);
+    };
+  }, [documents]);
+
+  if (!usage) return null;
+
+  const nearlyFull = isNearlyFull(usage);
+  const percent = Math.min(100, (usage.usage / usage.quota) * 100);
+
+  return (
+    <div className={`p-3 rounded-lg border space-y-2 ${nearlyFull ? 'bg-amber-500/10 border-amber-500/40' : 'bg-slate-800/40 border-slate-700/50'}`}>
+      <div className="flex items-center justify-between text-xs">
+        <span className={`font-semibold uppercase tracking-wider ${nearlyFull ? 'text-amber-300' : 'text-slate-400'}`}>
+          {nearlyFull ? '⚠️ Storage almost full' : 'Storage'}
+        </span>
+        {onManage && (
+          <button onClick={onManage} className={`hover:underline ${nearlyFull ? 'text-amber-200' : 'text-blue-400'}`}>
+            {nearlyFull ? 'Free up space' : 'Manage'}
+          </button>
+        )}
+      </div>
+      <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${nearlyFull ? 'bg-amber-400' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-[11px] text-slate-500">
+        {formatFileSize(usage.usage)} of {formatFileSize(usage.quota)} used
+      </p>
+    </div>
+  );
+};
+
+export default StorageMeter;
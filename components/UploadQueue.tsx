@@ -0,0 +1,112 @@
+import React from 'react';
+import { IngestionJob } from '../utils/ingestionQueue';
+import { formatFileSize } from '../utils/fileProcessor';
+import { translations, Lang } from '../utils/i18n';
+
+interface UploadQueueProps {
+  jobs: IngestionJob[];
+  lang: Lang;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onDismiss: (jobId?: string) => void;
+}
+
+const describe = (job: IngestionJob, lang: Lang): string => {
+  const progress = job.progress;
+  switch (job.stage) {
+    case 'queued': return 'Queued';
+    case 'extracting': return 'Extracting text...';
+    case 'ocr': return progress?.total ? `OCR page ${progress.current}/${progress.total}` : 'Running OCR...';
+    case 'translating': return `${translations[lang].languageDetected}${progress?.detail ?? ''}`;
+    case 'indexing': return 'Indexing...';
+    case 'done': return job.error || 'Done';
+    case 'failed': return `Failed: ${job.error}`;
+    case 'cancelled': return 'Cancelled';
+    case 'skipped': return `Skipped: ${job.error}`;
+  }
+};
+
+const STAGE_COLORS: Record<IngestionJob['stage'], string> = {
+  queued: 'text-slate-500',
+  extracting: 'text-blue-400',
+  ocr: 'text-blue-400',
+  translating: 'text-blue-400',
+  indexing: 'text-blue-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+  skipped: 'text-amber-400'
+};
+
+const UploadQueue: React.FC<UploadQueueProps> = ({ jobs, lang, onCancel, onRetry, onDismiss }) => {
+  if (jobs.length === 0) return null;
+
+  const active = jobs.some(j => !['done', 'failed', 'cancelled', 'skipped'].includes(j.stage));
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-blue-400 flex items-center">
+          {active && (
+            <svg className="animate-spin h-3 w-3 mr-2" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+              <path d="M2 12a10 10 0 0110-10" stroke="currentColor" strokeWidth="4" fill="none" />
+            </svg>
+          )}
+          {active ? translations[lang].uploading : `${jobs.length} upload(s)`}
+        </span>
+        <button
+          onClick={() => onDismiss()}
+          className="text-[10px] font-bold text-slate-500 hover:text-slate-300 uppercase tracking-tighter"
+        >
+          Clear finished
+        </button>
+      </div>
+
+      {jobs.map(job => {
+        const percent = job.stage === 'ocr' && job.progress?.total
+          ? Math.round(((job.progress.current ?? 0) / job.progress.total) * 100)
+          : null;
+        return (
+          <div key={job.id} className="p-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-slate-200 truncate" title={job.file.name}>{job.file.name}</p>
+              <div className="flex items-center space-x-1 shrink-0">
+                {(job.stage === 'failed' || job.stage === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className="text-[10px] text-blue-400 hover:text-blue-300">
+                    Retry
+                  </button>
+                )}
+                {['queued', 'extracting', 'ocr', 'translating'].includes(job.stage) ? (
+                  <button onClick={() => onCancel(job.id)} className="text-[10px] text-slate-400 hover:text-red-400">
+                    Cancel
+                  </button>
+                ) : job.stage !== 'indexing' && (
+                  <button
+                    onClick={() => onDismiss(job.id)}
+                    title="Dismiss"
+                    className="text-slate-500 hover:text-slate-300"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            </div>
+            <p className={`text-[10px] ${STAGE_COLORS[job.stage]} truncate`} title={describe(job, lang)}>
+              {formatFileSize(job.file.size)} · {describe(job, lang)}
+            </p>
+            {percent !== null && (
+              <div className="mt-1 h-1 bg-slate-700 rounded">
+                <div className="h-1 bg-blue-500 rounded transition-all" style={{ width: `${percent}%` }} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UploadQueue;
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { DocumentFile } from '../types';
+import { formatFileSize } from '../utils/fileProcessor';
+import { diffLines } from '../utils/textDiff';
+
+interface VersionHistoryProps {
+  versions: DocumentFile[]; // every version of one document, newest first
+  onActivate: (docId: string) => void;
+  onOpen: (docId: string) => void;
+  onClose: () => void;
+}
+
+const LINE_STYLES = {
+  same: 'text-slate-400',
+  added: 'bg-green-500/10 text-green-300',
+  removed: 'bg-red-500/10 text-red-300'
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, onActivate, onOpen, onClose }) => {
+  // Compare the previous version with the newest by default
+  const [fromId, setFromId] = useState(versions[1]?.id ?? versions[0]?.id);
+  const [toId, setToId] = useState(versions[0]?.id);
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = useMemo(
+    () => (from && to && from.id !== to.id ? diffLines(from.content, to.content) : null),
+    [from, to]
+  );
+
+  if (versions.length === 0) return null;
+
+  const versionOption = (doc: DocumentFile) => (
+    <option key={doc.id} value={doc.id}>
+      v{doc.version || 1} · {new Date(doc.uploadDate).toLocaleString()}
+    </option>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800/80 backdrop-blur border-b border-slate-700 p-6 flex items-center justify-between rounded-t-2xl">
+          <div className="overflow-hidden">
+            <h2 className="text-2xl font-bold text-white">🕘 Version History</h2>
+            <p className="text-sm text-slate-400 truncate">{versions[0].path || versions[0].name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {/* Versions */}
+          <div className="space-y-2">
+            {versions.map(doc => (
+              <div key={doc.id} className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+                <div className="overflow-hidden">
+                  <p className="text-sm font-medium text-slate-200">
+                    v{doc.version || 1}
+                    {!doc.archived && (
+                      <span className="ml-2 text-[10px] uppercase tracking-wider text-green-400 bg-green-500/10 border border-green-500/30 rounded px-1.5 py-0.5">
+                        Active for chat
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {new Date(doc.uploadDate).toLocaleString()} · {formatFileSize(doc.size)}
+                    {doc.contentHash && <span title={doc.contentHash}> · #{doc.contentHash.slice(0, 8)}</span>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => onOpen(doc.id)}
+                    className="text-xs text-slate-300 hover:text-white px-2 py-1 rounded border border-slate-600 hover:border-slate-400"
+                  >
+                    View
+                  </button>
+                  {doc.archived && (
+                    <button
+                      onClick={() => onActivate(doc.id)}
+                      className="text-xs text-blue-300 hover:text-white px-2 py-1 rounded border border-blue-500/50 hover:bg-blue-600/30"
+                    >
+                      Make active
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Diff */}
+          {versions.length > 1 && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="font-semibold uppercase tracking-wider">Compare</span>
+                <select
+                  value={fromId}
+                  onChange={e => setFromId(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                >
+                  {versions.map(versionOption)}
+                </select>
+                <span>→</span>
+                <select
+                  value={toId}
+                  onChange={e => setToId(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 text-slate-100 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                >
+                  {versions.map(versionOption)}
+                </select>
+                {diff && (
+                  <span className="ml-auto">
+                    <span className="text-green-400">+{diff.added}</span>{' '}
+                    <span className="text-red-400">-{diff.removed}</span> lines
+                  </span>
+                )}
+              </div>
+
+              {!diff ? (
+                <p className="text-sm text-slate-500">Pick two different versions to compare.</p>
+              ) : diff.hunks.length === 0 ? (
+                <p className="text-sm text-slate-500">The extracted text of these versions is identical.</p>
+              ) : (
+                <div className="bg-slate-950 border border-slate-800 rounded-lg overflow-x-auto font-mono text-xs">
+                  {diff.truncated && (
+                    <p className="px-3 py-2 text-amber-400 border-b border-slate-800">
+                      Too many changes to align line by line; showing the full replacement.
+                    </p>
+                  )}
+                  {diff.hunks.map((hunk, i) => (
+                    <div key={i}>
+                      {hunk.skippedBefore > 0 && (
+                        <p className="px-3 py-1 text-slate-600 bg-slate-900/60">⋯ {hunk.skippedBefore} unchanged lines</p>
+                      )}
+                      {hunk.lines.map((line, j) => (
+                        <div key={j} className={`flex whitespace-pre ${LINE_STYLES[line.kind]}`}>
+                          <span className="w-10 shrink-0 text-right pr-2 text-slate-600 select-none">{line.oldLine ?? ''}</span>
+                          <span className="w-10 shrink-0 text-right pr-2 text-slate-600 select-none">{line.newLine ?? ''}</span>
+                          <span className="w-4 shrink-0 select-none">{LINE_MARKERS[line.kind]}</span>
+                          <span className="pr-3">{line.text}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  {diff.skippedAfter > 0 && (
+                    <p className="px-3 py-1 text-slate-600 bg-slate-900/60">⋯ {diff.skippedAfter} unchanged lines</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
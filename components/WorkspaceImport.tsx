@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { DocumentFile } from '../types';
+import { ConflictPolicy, findConflicts, WorkspaceArchive } from '../utils/workspaceArchive';
+
+export type ImportTarget = 'new' | 'current';
+
+interface WorkspaceImportProps {
+  archive: WorkspaceArchive;
+  currentName: string;
+  currentDocuments: DocumentFile[];
+  onConfirm: (target: ImportTarget, policy: ConflictPolicy) => void;
+  onClose: () => void;
+}
+
+const POLICIES: { value: ConflictPolicy; label: string; hint: string }[] = [
+  { value: 'skip', label: 'Skip them', hint: 'Keep the existing documents unchanged' },
+  { value: 'replace', label: 'Replace existing', hint: 'Remove the existing documents, with all their versions' },
+  { value: 'version', label: 'Add as new versions', hint: 'Identical files are still skipped' }
+];
+
+// Conflicting names listed before "and N more"
+const MAX_LISTED = 5;
+
+const WorkspaceImport: React.FC<WorkspaceImportProps> = ({ archive, currentName, currentDocuments, onConfirm, onClose }) => {
+  const [target, setTarget] = useState<ImportTarget>('new');
+  const [policy, setPolicy] = useState<ConflictPolicy>('skip');
+
+  const { manifest } = archive;
+  // Versions of one document share a name, so list each name once
+  const conflicts = [...new Set(findConflicts(currentDocuments, archive.documents).map(d => d.path || d.name))];
+
+  const option = (value: ImportTarget, title: string, description: string) => (
+    <label className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${target === value ? 'border-blue-500 bg-blue-600/10' : 'border-slate-700 bg-slate-800/50'}`}>
+      <input type="radio" checked={target === value} onChange={() => setTarget(value)} className="mt-1" />
+      <span>
+        <span className="block text-sm font-medium text-slate-200">{title}</span>
+        <span className="block text-xs text-slate-400">{description}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-slate-800/80 backdrop-blur border-b border-slate-700 p-6 flex items-center justify-between rounded-t-2xl">
+          <div className="overflow-hidden">
+            <h2 className="text-2xl font-bold text-white">📦 Import Workspace</h2>
+            <p className="text-sm text-slate-400 truncate">
+              "{manifest.workspace.name}" · exported {new Date(manifest.exportedAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-slate-200"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-300">
+            {archive.documents.length} document(s) and {manifest.workspace.conversations.length} conversation(s).
+          </p>
+
+          <div className="space-y-2">
+            {option('new', 'As a new workspace', 'Documents, conversations and model settings (API keys are never exported)')}
+            {option('current', `Into "${currentName}"`, 'Documents and their tags only; the conversations here are kept')}
+          </div>
+
+          {target === 'current' && conflicts.length > 0 && (
+            <div className="space-y-2 p-3 bg-amber-500/10 border border-amber-500/40 rounded-lg">
+              <p className="text-sm text-amber-200">
+                {conflicts.length} document(s) already exist here:{' '}
+                {conflicts.slice(0, MAX_LISTED).join(', ')}
+                {conflicts.length > MAX_LISTED && ` and ${conflicts.length - MAX_LISTED} more`}
+              </p>
+              {POLICIES.map(p => (
+                <label key={p.value} className="flex items-start gap-2 text-sm text-slate-200 cursor-pointer">
+                  <input type="radio" checked={policy === p.value} onChange={() => setPolicy(p.value)} className="mt-1" />
+                  <span>
+                    {p.label}
+                    <span className="block text-xs text-slate-400">{p.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-300 hover:text-white rounded-lg border border-slate-600 hover:border-slate-400"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(target, policy)}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceImport;
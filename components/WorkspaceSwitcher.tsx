@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { Workspace } from '../utils/storageService';
+import { isActive } from '../utils/versioning';
+
+interface WorkspaceSwitcherProps {
+  current: Workspace;
+  workspaces: Workspace[]; // every workspace of the user, archived ones included
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (workspaceId: string, name: string) => void;
+  onDuplicate: (workspaceId: string) => void;
+  onArchive: (workspaceId: string, archived: boolean) => void;
+  onDelete: (workspaceId: string) => void;
+  onExport: (workspaceId: string) => void;
+  onImport: (file: File) => void;
+}
+
+const ACTION_CLASS = 'p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-700 transition-colors';
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  current, workspaces, onSwitch, onCreate, onRename, onDuplicate, onArchive, onDelete, onExport, onImport
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const open = workspaces.filter(w => !w.archived);
+  const archived = workspaces.filter(w => w.archived);
+
+  const startRename = (workspace: Workspace) => {
+    setEditingId(workspace.id);
+    setDraftName(workspace.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const summary = (workspace: Workspace) => {
+    const docs = workspace.documents.filter(isActive).length;
+    const chats = workspace.conversations.length;
+    return `${docs} doc${docs !== 1 ? 's' : ''} · ${chats} conversation${chats !== 1 ? 's' : ''}`;
+  };
+
+  return (
+    <div className="relative mt-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-slate-800/60 hover:bg-slate-800 border border-slate-700 rounded-lg text-left transition-colors"
+        title="Switch workspace"
+      >
+        <span className="overflow-hidden">
+          <span className="block text-[10px] uppercase tracking-wider text-slate-500">Workspace</span>
+          <span className="block text-sm font-medium text-slate-200 truncate">{current.name}</span>
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 text-slate-400 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-1 z-30 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl max-h-[60vh] overflow-y-auto">
+          <div className="p-1">
+            {open.map(workspace => (
+              <div
+                key={workspace.id}
+                className={`group flex items-center gap-2 px-2 py-1.5 rounded-md ${workspace.id === current.id ? 'bg-blue-600/20' : 'hover:bg-slate-800'}`}
+              >
+                {editingId === workspace.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-800 border border-blue-500 text-slate-100 text-sm rounded px-2 py-0.5 focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      setIsOpen(false);
+                      if (workspace.id !== current.id) onSwitch(workspace.id);
+                    }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <span className="block text-sm text-slate-200 truncate">{workspace.name}</span>
+                    <span className="block text-[11px] text-slate-500">{summary(workspace)}</span>
+                  </button>
+                )}
+                <div className="flex items-center shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startRename(workspace)} className={ACTION_CLASS} title="Rename">✏️</button>
+                  <button onClick={() => onDuplicate(workspace.id)} className={ACTION_CLASS} title="Duplicate">⧉</button>
+                  <button onClick={() => onExport(workspace.id)} className={ACTION_CLASS} title="Export as archive">⬇️</button>
+                  <button onClick={() => onArchive(workspace.id, true)} className={ACTION_CLASS} title="Archive">🗄️</button>
+                  <button onClick={() => onDelete(workspace.id)} className={`${ACTION_CLASS} hover:text-red-400`} title="Delete">🗑️</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleCreate} className="flex gap-2 p-2 border-t border-slate-800">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New workspace name"
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-100 text-sm rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded-lg transition-colors"
+            >
+              Create
+            </button>
+          </form>
+
+          <div className="px-2 pb-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="w-full text-left px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-800"
+            >
+              📦 Import workspace archive…
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) {
+                  setIsOpen(false);
+                  onImport(file);
+                }
+              }}
+            />
+          </div>
+
+          {archived.length > 0 && (
+            <div className="border-t border-slate-800 p-1">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="w-full text-left px-2 py-1 text-xs font-semibold text-slate-500 uppercase tracking-wider hover:text-slate-300"
+              >
+                {showArchived ? '▾' : '▸'} Archived ({archived.length})
+              </button>
+              {showArchived && archived.map(workspace => (
+                <div key={workspace.id} className="flex items-center gap-2 px-2 py-1.5">
+                  <div className="flex-1 min-w-0">
+                    <span className="block text-sm text-slate-400 truncate">{workspace.name}</span>
+                    <span className="block text-[11px] text-slate-600">{summary(workspace)}</span>
+                  </div>
+                  <button
+                    onClick={() => onArchive(workspace.id, false)}
+                    className="text-xs text-blue-300 hover:text-white px-2 py-0.5 rounded border border-blue-500/50 hover:bg-blue-600/30"
+                  >
+                    Restore
+                  </button>
+                  <button onClick={() => onExport(workspace.id)} className={ACTION_CLASS} title="Export as archive">⬇️</button>
+                  <button onClick={() => onDelete(workspace.id)} className={`${ACTION_CLASS} hover:text-red-400`} title="Delete">🗑️</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -1,4 +1,5 @@
 import { DocumentFile, Message } from '../types';
+import { DB_NAME, DB_VERSION, STORES, upgradeSchema } from '../utils/database';
 
 export interface User {
   id: string;
@@ -15,8 +16,8 @@ export interface UserSession {
 }
 
 class AuthService {
-  private dbName = 'gemini-rag-navigator';
-  private userStoreName = 'users';
+  private dbName = DB_NAME;
+  private userStoreName = STORES.users;
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
 
@@ -36,7 +37,7 @@ class AuthService {
 
     this.initPromise = new Promise((resolve, reject) => {
       try {
-        const request = indexedDB.open(this.dbName, 4);
+        const request = indexedDB.open(this.dbName, DB_VERSION);
 
         request.onerror = () => {
           console.error('IndexedDB error:', request.error);
@@ -47,6 +48,12 @@ class AuthService {
         request.onsuccess = () => {
           this.db = request.result;
           
+          // A newer version is opening in another tab; step aside so it can upgrade
+          this.db.onversionchange = () => {
+            this.db?.close();
+            this.db = null;
+          };
+
           // Handle database close event
           this.db.onclose = () => {
             console.warn('IndexedDB connection closed unexpectedly');
@@ -64,13 +71,7 @@ class AuthService {
 
         request.onupgradeneeded = (event) => {
           const db = (event.target as IDBOpenDBRequest).result;
-          
-          // Create users store if it doesn't exist
-          if (!db.objectStoreNames.contains(this.userStoreName)) {
-            const objectStore = db.createObjectStore(this.userStoreName, { keyPath: 'id' });
-            objectStore.createIndex('username', 'username', { unique: true });
-            objectStore.createIndex('email', 'email', { unique: true });
-          }
+          upgradeSchema(db);
         };
       } catch (error) {
         this.initPromise = null;
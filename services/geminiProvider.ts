@@ -0,0 +1,86 @@
+import { GoogleGenAI, Content } from "@google/genai";
+import { ChatTurn, GenerationOptions, LLMProvider, SUMMARY_SYSTEM_INSTRUCTION } from "./llmProvider";
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini';
+  // Gemini embeddings rarely score unrelated passages below 0.3
+  readonly embeddingMinSimilarity = 0.4;
+  private ai: GoogleGenAI;
+  private apiKey: string;
+  private embeddingModel: string;
+  private embedBatchSize = 100;
+
+  constructor(apiKey: string, embeddingModel: string) {
+    this.apiKey = apiKey;
+    this.embeddingModel = embeddingModel;
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  get supportsEmbeddings(): boolean {
+    return !!this.apiKey;
+  }
+
+  private toContents(turns: ChatTurn[]): Content[] {
+    return turns.map(t => ({ role: t.role, parts: [{ text: t.text }] }));
+  }
+
+  private ensureApiKey() {
+    if (!this.apiKey) {
+      throw new Error("Gemini API key is missing or not set.");
+    }
+  }
+
+  async chat(turns: ChatTurn[], options: GenerationOptions): Promise<string> {
+    this.ensureApiKey();
+    const response = await this.ai.models.generateContent({
+      model: options.model,
+      contents: this.toContents(turns),
+      config: {
+        systemInstruction: options.systemInstruction,
+        temperature: options.temperature,
+        abortSignal: options.signal
+      }
+    });
+    return response.text || '';
+  }
+
+  async *chatStream(turns: ChatTurn[], options: GenerationOptions): AsyncGenerator<string> {
+    this.ensureApiKey();
+    const result = await this.ai.models.generateContentStream({
+      model: options.model,
+      contents: this.toContents(turns),
+      config: {
+        systemInstruction: options.systemInstruction,
+        temperature: options.temperature,
+        abortSignal: options.signal
+      }
+    });
+    for await (const chunk of result) {
+      if (options.signal?.aborted) return;
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async *summarize(content: string, prompt: string, options: GenerationOptions): AsyncGenerator<string> {
+    yield* this.chatStream(
+      [{ role: 'user', text: `${prompt}\n\nDOCUMENT CONTENT:\n${content}` }],
+      { ...options, systemInstruction: options.systemInstruction || SUMMARY_SYSTEM_INSTRUCTION }
+    );
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.ensureApiKey();
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.embedBatchSize) {
+      const batch = texts.slice(i, i + this.embedBatchSize);
+      const response = await this.ai.models.embedContent({ model: this.embeddingModel, contents: batch });
+      const embeddings = response.embeddings || [];
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Embedding request returned ${embeddings.length} vectors for ${batch.length} inputs`);
+      }
+      embeddings.forEach(e => vectors.push(e.values || []));
+    }
+    return vectors;
+  }
+}
@@ -1,86 +1,284 @@
+import { Citation, DocumentFile, GroundingReport, Message } from "../types";
+import { ensureChunks } from "../utils/chunker";
+import { retrieveChunks, formatContext, DEFAULT_TOP_K, RetrievedChunk } from "../utils/retriever";
+import { parseCitations } from "../utils/citations";
+import { parseMessageFilter } from "../utils/messageFilter";
+import { verifyGrounding } from "../utils/groundingVerifier";
+import { vectorIndex } from "../utils/vectorIndex";
+import { tableStore } from "../utils/tableStore";
+import { versionLabel } from "../utils/versioning";
+import { buildQueryPlanPrompt, parseTableQuery, queryResultChunk, runTableQuery } from "../utils/tableQuery";
+import { settingsService, WorkspaceSettings } from "../utils/settingsService";
+import { buildHistorySummaryPrompt, compactHistory } from "../utils/chatHistory";
+import { ChatTurn, LLMProvider, ProviderSettings, createEmbedder } from "./llmProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAICompatibleProvider } from "./openAIProvider";
+import { MockProvider } from "./mockProvider";
 
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
-import { DocumentFile, Message } from "../types";
+const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.baseUrl, settings.apiKey, settings.embeddingModel);
+    case 'mock':
+      return new MockProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider((import.meta as any).env.VITE_API_KEY || '', settings.embeddingModel);
+  }
+};
 
-const MODEL_NAME = 'gemini-3-pro-preview';
+export interface TurnOptions {
+  queryTables?: boolean; // plan and run a local query over CSV/JSON/YAML tables first
+  signal?: AbortSignal; // stops the answer; what was streamed so far is kept
+}
 
 export class GeminiRAGService {
-  private ai: GoogleGenAI;
-  private chatInstance: Chat | null = null;
+  private provider!: LLMProvider;
+  private settings!: WorkspaceSettings;
+  private documents: DocumentFile[] | null = null;
+  private history: ChatTurn[] = [];
+  // Settles once restored history is in place; turns wait for it
+  private historyReady: Promise<void> = Promise.resolve();
+  // Bumped by every initializeChat; turns and compactions from an earlier chat are dropped
+  private generation = 0;
+  private lastRetrieved: RetrievedChunk[] = [];
+  private topK = DEFAULT_TOP_K;
 
   constructor() {
-    const apiKey = (import.meta as any).env.VITE_API_KEY || '';
-    this.ai = new GoogleGenAI({ apiKey });
+    this.configure(settingsService.getSettings());
+  }
+
+  /**
+   * Switch provider, model or temperature. Chat history is kept, so an
+   * ongoing conversation continues on the new model.
+   */
+  configure(settings: WorkspaceSettings) {
+    this.settings = settings;
+    this.provider = createProvider(settings);
+    vectorIndex.setEmbedder(createEmbedder(this.provider, settings.embeddingModel));
+  }
+
+  getModelLabel(): string {
+    return `${this.provider.label} · ${this.settings.model}`;
   }
 
   private buildSystemInstruction(docs: DocumentFile[]): string {
-    const docContext = docs.map(d => `--- DOCUMENT: ${d.name} ---\n${d.content}`).join('\n\n');
+    const docList = docs.map(d => `- ${versionLabel(d)}`).join('\n');
     
     return `You are a professional research assistant with deep expertise in document analysis.
     
 CONTEXT:
-You have been provided with the following documents:
-${docContext}
+The user's library contains the following documents:
+${docList}
+
+With every question you will receive the most relevant excerpts from these documents under "RETRIEVED CONTEXT", each numbered like [1].
 
 INSTRUCTIONS:
-1. Answer the user's questions strictly using the information provided in the documents above.
-2. If the answer is not in the documents, state clearly that you cannot find the information in the provided context.
+1. Answer the user's questions strictly using the information provided in the retrieved excerpts.
+2. If the answer is not in the excerpts, state clearly that you cannot find the information in the provided context.
 3. When referencing information, mention the specific document name if possible.
 4. Keep your tone professional, concise, and helpful.
-5. You can use markdown for formatting (bold, lists, code blocks).
-6. Provide citations for your claims in the format [Document Name].`;
+5. You can use markdown for formatting (bold, lists, tables, code blocks with a language, and math as $...$ or $$...$$).
+6. Cite the excerpt number for every claim, e.g. "The limit is 5 MB [2]." Use only the numbers given; cite several as [1][3].
+7. Documents with several revisions show their version in the list above and in each excerpt's SOURCE line; when it matters, say which version your answer is based on.`;
   }
 
-  async initializeChat(docs: DocumentFile[]) {
-    const systemInstruction = this.buildSystemInstruction(docs);
-    
-    this.chatInstance = this.ai.chats.create({
-      model: MODEL_NAME,
-      config: {
-        systemInstruction,
-        temperature: 0.2, // Lower temperature for more factual RAG responses
-      },
-    });
+  /**
+   * Wrap a question with the top-k chunks retrieved for it. from:/after:/
+   * before: operators in the question narrow retrieval to matching messages.
+   * In table mode a locally computed query result leads the excerpts.
+   */
+  private async buildPrompt(text: string, turnOptions: TurnOptions = {}): Promise<string> {
+    const { text: query, filter } = parseMessageFilter(text);
+    const retrieved = await retrieveChunks(this.documents || [], query, this.topK, filter);
+    if (turnOptions.queryTables) {
+      const result = await this.queryTables(query || text);
+      if (result) retrieved.unshift(result);
+    }
+    this.lastRetrieved = retrieved;
+    const context = retrieved.length > 0
+      ? formatContext(retrieved)
+      : 'No relevant excerpts were found for this question.';
+    return `RETRIEVED CONTEXT:\n${context}\n\nQUESTION:\n${text}`;
   }
 
-  async sendMessage(text: string): Promise<string> {
-    if (!this.chatInstance) {
+  /**
+   * Ask the model to plan a query over the library's tables, then run it on
+   * the stored rows. Returns null when no table applies or the plan fails;
+   * the turn then proceeds on retrieval alone.
+   */
+  private async queryTables(question: string): Promise<RetrievedChunk | null> {
+    const tables = (this.documents || []).filter(d => d.table);
+    if (tables.length === 0) return null;
+    try {
+      const response = await this.provider.chat([{ role: 'user', text: buildQueryPlanPrompt(tables, question) }], {
+        model: this.settings.model,
+        temperature: 0,
+        systemInstruction: "You translate questions into table queries. Reply with JSON only."
+      });
+      const plan = parseTableQuery(response);
+      if (!plan) return null;
+      const doc = tables.find(d => d.name.toLowerCase() === plan.table.trim().toLowerCase());
+      if (!doc) throw new Error(`Unknown table "${plan.table}"`);
+      const rows = await tableStore.load(doc.id);
+      if (!rows) throw new Error(`No stored rows for ${doc.name}`);
+      const result = runTableQuery(doc.table!, rows, plan);
+      return { chunk: queryResultChunk(doc, result), docName: doc.path || doc.name, docVersion: doc.version, score: 1 };
+    } catch (error) {
+      console.warn("Table query failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Run one turn against the model. Only the current turn carries retrieved
+   * context; history keeps the bare question so prompts do not grow with it.
+   */
+  private async startTurn(text: string, turnOptions: TurnOptions = {}) {
+    if (!this.documents) {
       throw new Error("Chat not initialized. Please upload documents first.");
     }
+    const generation = this.generation;
+    await this.historyReady;
+    const turns: ChatTurn[] = [
+      ...this.history,
+      { role: 'user', text: await this.buildPrompt(text, turnOptions) }
+    ];
+    const options = {
+      model: this.settings.model,
+      temperature: this.settings.temperature,
+      systemInstruction: this.buildSystemInstruction(this.documents),
+      signal: turnOptions.signal
+    };
+    return { turns, options, generation };
+  }
+
+  private recordTurn(question: string, answer: string, generation: number) {
+    // A reply stopped before any text arrived leaves no turn, and one that
+    // finished after switching conversations belongs to the previous one
+    if (!answer || generation !== this.generation) return;
+    this.history.push(
+      { role: 'user', text: question },
+      { role: 'model', text: answer }
+    );
+  }
+
+  /**
+   * Resolve the [n] markers in the latest answer to the excerpts sent with it
+   */
+  getCitations(answer: string): Citation[] {
+    return parseCitations(answer, this.lastRetrieved);
+  }
+
+  /**
+   * Check the latest answer sentence by sentence against the excerpts sent
+   * with it, optionally asking the model to rule on borderline sentences
+   */
+  async verifyAnswer(answer: string): Promise<GroundingReport> {
+    const chunks = this.lastRetrieved.map(r => r.chunk);
+    const entail = this.settings.verifyWithModel
+      ? (claims: string[], passages: string[]) => this.checkEntailment(claims, passages)
+      : undefined;
+    return verifyGrounding(answer, chunks, entail);
+  }
+
+  private async checkEntailment(claims: string[], passages: string[]): Promise<boolean[]> {
+    const prompt = `PASSAGES:
+${passages.map((p, i) => `[${i + 1}] ${p.trim()}`).join('\n\n')}
+
+CLAIMS:
+${claims.map((c, i) => `${i + 1}. ${c}`).join('\n')}
+
+For each claim, in order, reply with one line containing only SUPPORTED if the passages state or directly imply it, otherwise UNSUPPORTED.`;
+
+    const response = await this.provider.chat([{ role: 'user', text: prompt }], {
+      model: this.settings.model,
+      temperature: 0,
+      systemInstruction: "You are a strict fact checker. Judge claims only against the given passages."
+    });
+
+    const verdicts = response.split('\n')
+      .map(line => line.trim().toUpperCase())
+      .filter(line => line.includes('SUPPORTED'))
+      .map(line => !line.includes('UNSUPPORTED'));
+    if (verdicts.length !== claims.length) {
+      throw new Error(`Expected ${claims.length} verdicts, got ${verdicts.length}`);
+    }
+    return verdicts;
+  }
+
+  /**
+   * Start a chat over the given documents, continuing from `history` when
+   * a saved conversation is reopened. History over the token budget is
+   * compacted into a summary first.
+   */
+  async initializeChat(docs: DocumentFile[], history: ChatTurn[] = []) {
+    const generation = ++this.generation;
+    this.documents = ensureChunks(docs);
+    this.history = [...history];
+    this.historyReady = compactHistory(history, turns => this.summarizeHistory(turns)).then(turns => {
+      // Another chat was started while summarizing
+      if (generation !== this.generation) return;
+      // Keep any turn recorded in the meantime
+      this.history = [...turns, ...this.history.slice(history.length)];
+    });
+    await this.historyReady;
+  }
+
+  private async summarizeHistory(turns: ChatTurn[]): Promise<string> {
+    return this.provider.chat([{ role: 'user', text: buildHistorySummaryPrompt(turns) }], {
+      model: this.settings.model,
+      temperature: 0,
+      systemInstruction: "You condense chat transcripts into notes that let the conversation continue."
+    });
+  }
+
+  // Turns so far, saved with the conversation so it can be resumed
+  getHistory(): ChatTurn[] {
+    return [...this.history];
+  }
+
+  async sendMessage(text: string, turnOptions: TurnOptions = {}): Promise<string> {
+    const { turns, options, generation } = await this.startTurn(text, turnOptions);
 
     try {
-      const response = await this.chatInstance.sendMessage({ message: text });
-      return response.text || "I'm sorry, I couldn't generate a response.";
+      const response = await this.provider.chat(turns, options);
+      const answer = response || "I'm sorry, I couldn't generate a response.";
+      this.recordTurn(text, answer, generation);
+      return answer;
     } catch (error) {
-      console.error("Gemini API Error:", error);
+      console.error("LLM API Error:", error);
       const errorMsg = this.extractErrorMessage(error);
       throw new Error(errorMsg);
     }
   }
 
-  async *sendMessageStream(text: string): AsyncGenerator<string> {
-    if (!this.chatInstance) {
-      throw new Error("Chat not initialized.");
-    }
+  /**
+   * Stream an answer. When `turnOptions.signal` aborts, the stream ends
+   * quietly and the partial answer is kept in history.
+   */
+  async *sendMessageStream(text: string, turnOptions: TurnOptions = {}): AsyncGenerator<string> {
+    const { turns, options, generation } = await this.startTurn(text, turnOptions);
 
+    let answer = '';
     try {
-      const result = await this.chatInstance.sendMessageStream({ message: text });
-      for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-          yield c.text;
-        }
+      for await (const chunk of this.provider.chatStream(turns, options)) {
+        answer += chunk;
+        yield chunk;
       }
+      this.recordTurn(text, answer, generation);
     } catch (error) {
-      console.error("Gemini Streaming Error:", error);
+      if (turnOptions.signal?.aborted) {
+        this.recordTurn(text, answer, generation);
+        return;
+      }
+      console.error("LLM Streaming Error:", error);
       const errorMsg = this.extractErrorMessage(error);
       throw new Error(errorMsg);
     }
   }
 
   async *summarizeDocs(docs: DocumentFile[]): AsyncGenerator<string> {
-    const apiKey = (import.meta as any).env.VITE_API_KEY || '';
-    const ai = new GoogleGenAI({ apiKey });
     const prompt = docs.length === 1 
       ? `Please provide a concise summary of the document titled "${docs[0].name}". Highlight the key points, main arguments, and conclusion. Use bullet points for clarity.`
       : `Please provide a concise collective summary of the following ${docs.length} documents: ${docs.map(d => d.name).join(', ')}. Highlight common themes and unique key points from each.`;
@@ -88,25 +286,12 @@ INSTRUCTIONS:
     const content = docs.map(d => `Document: ${d.name}\nContent: ${d.content}`).join('\n\n');
 
     try {
-      if (!apiKey || apiKey === "") {
-        throw new Error("Gemini API key is missing or not set.");
-      }
       if (!content || content.trim().length === 0) {
         throw new Error("Document content is empty. Cannot summarize.");
       }
-      const result = await ai.models.generateContentStream({
-        model: MODEL_NAME,
-        contents: [
-          { role: 'user', parts: [{ text: `${prompt}\n\nDOCUMENT CONTENT:\n${content}` }] }
-        ],
-        config: {
-          temperature: 0.3,
-          systemInstruction: "You are an expert at summarizing complex documents into clear, concise, and actionable insights."
-        }
-      });
-
-      for await (const chunk of result) {
-        if (chunk.text) yield chunk.text;
+      const options = { model: this.settings.model, temperature: 0.3 };
+      for await (const chunk of this.provider.summarize(content, prompt, options)) {
+        yield chunk;
       }
     } catch (error: any) {
       console.error("Summarization Error:", error);
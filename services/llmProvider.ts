@@ -0,0 +1,77 @@
+import { Embedder, LocalEmbedder } from "../utils/vectorIndex";
+
+/**
+ * One turn of a conversation as sent to a model
+ */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerationOptions {
+  model: string;
+  temperature: number;
+  systemInstruction?: string;
+  signal?: AbortSignal; // cancels the request; a stream ends early with what it has
+}
+
+/**
+ * Common surface for every model backend the RAG service can talk to
+ */
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  /** False when the backend cannot embed (e.g. no API key); a local embedder is used instead */
+  readonly supportsEmbeddings: boolean;
+  /** Cosine similarity below which its embeddings count as unrelated */
+  readonly embeddingMinSimilarity: number;
+  chat(turns: ChatTurn[], options: GenerationOptions): Promise<string>;
+  chatStream(turns: ChatTurn[], options: GenerationOptions): AsyncGenerator<string>;
+  summarize(content: string, prompt: string, options: GenerationOptions): AsyncGenerator<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderKind;
+  model: string;
+  temperature: number;
+  embeddingModel: string;
+  baseUrl: string; // OpenAI-compatible servers only
+  apiKey: string; // OpenAI-compatible servers only; Gemini reads VITE_API_KEY
+}
+
+export const SUMMARY_SYSTEM_INSTRUCTION =
+  "You are an expert at summarizing complex documents into clear, concise, and actionable insights.";
+
+/**
+ * Embedder backed by a provider, falling back to the local hashing embedder
+ * when the provider cannot embed. A provider can find that out on its first
+ * request; the id then changes with it, so the local vectors are stored and
+ * queried as such.
+ */
+export const createEmbedder = (provider: LLMProvider, embeddingModel: string): Embedder => {
+  const local = new LocalEmbedder();
+  if (!provider.supportsEmbeddings) {
+    return local;
+  }
+  return {
+    get id() {
+      return provider.supportsEmbeddings ? `${provider.id}:${embeddingModel}` : local.id;
+    },
+    get minSimilarity() {
+      return provider.supportsEmbeddings ? provider.embeddingMinSimilarity : local.minSimilarity;
+    },
+    async embed(texts: string[]) {
+      if (!provider.supportsEmbeddings) return local.embed(texts);
+      try {
+        return await provider.embed(texts);
+      } catch (error) {
+        if (provider.supportsEmbeddings) throw error;
+        console.warn(`[LLMProvider] ${provider.label} cannot embed, using local embeddings:`, error);
+        return local.embed(texts);
+      }
+    }
+  };
+};
@@ -0,0 +1,48 @@
+import { ChatTurn, GenerationOptions, LLMProvider } from "./llmProvider";
+import { LocalEmbedder } from "../utils/vectorIndex";
+
+/**
+ * Deterministic provider for tests and offline demos. Answers echo the first
+ * retrieved excerpt so retrieval can be checked without a model.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock';
+  readonly supportsEmbeddings = true;
+  private embedder = new LocalEmbedder();
+
+  get embeddingMinSimilarity(): number {
+    return this.embedder.minSimilarity;
+  }
+
+  private respond(turns: ChatTurn[], options: GenerationOptions): string {
+    const last = [...turns].reverse().find(t => t.role === 'user')?.text || '';
+    const excerpt = last.match(/\[(\d+)\] SOURCE: ([^\n]+)\n([^\n]+)/);
+    if (!excerpt) {
+      return `(${options.model}) I cannot find the information in the provided context.`;
+    }
+    const [, marker, source, firstLine] = excerpt;
+    return `(${options.model}) According to ${source}: ${firstLine.trim()} [${marker}]`;
+  }
+
+  async chat(turns: ChatTurn[], options: GenerationOptions): Promise<string> {
+    return this.respond(turns, options);
+  }
+
+  async *chatStream(turns: ChatTurn[], options: GenerationOptions): AsyncGenerator<string> {
+    // Stream word by word so UI streaming paths are exercised
+    for (const word of this.respond(turns, options).split(/(?<=\s)/)) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  }
+
+  async *summarize(content: string, _prompt: string, options: GenerationOptions): AsyncGenerator<string> {
+    const preview = content.replace(/\s+/g, ' ').trim().slice(0, 200);
+    yield `(${options.model}) Summary: ${preview}${content.length > 200 ? '…' : ''}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.embedder.embed(texts);
+  }
+}
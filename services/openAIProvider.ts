@@ -0,0 +1,133 @@
+import { ChatTurn, GenerationOptions, LLMProvider, SUMMARY_SYSTEM_INSTRUCTION } from "./llmProvider";
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Statuses meaning the server has no embeddings endpoint or model, as
+// opposed to a failure worth retrying
+const EMBEDDINGS_UNAVAILABLE = [400, 404, 405, 501];
+
+/**
+ * Talks to any server exposing the OpenAI chat completions and embeddings
+ * API, e.g. llama.cpp's server or Ollama at http://localhost:11434/v1
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai';
+  readonly label = 'OpenAI-compatible';
+  // Fits OpenAI's text-embedding-3 models and common local ones (nomic, bge),
+  // which score unrelated passages around 0.1
+  readonly embeddingMinSimilarity = 0.25;
+  private baseUrl: string;
+  private apiKey: string;
+  private embeddingModel: string;
+  private embeddingsUnavailable = false;
+
+  constructor(baseUrl: string, apiKey: string, embeddingModel: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.embeddingModel = embeddingModel;
+  }
+
+  // Many llama.cpp and Ollama setups serve chat only
+  get supportsEmbeddings(): boolean {
+    return !!this.embeddingModel && !this.embeddingsUnavailable;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  private toMessages(turns: ChatTurn[], systemInstruction?: string): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+    return messages.concat(turns.map(t => ({ role: t.role === 'model' ? 'assistant' : 'user', content: t.text })));
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) throw await this.failure(response);
+    return response;
+  }
+
+  private async failure(response: Response): Promise<Error> {
+    const detail = await response.text().catch(() => '');
+    return new Error(`${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+  }
+
+  async chat(turns: ChatTurn[], options: GenerationOptions): Promise<string> {
+    const response = await this.post('/chat/completions', {
+      model: options.model,
+      temperature: options.temperature,
+      messages: this.toMessages(turns, options.systemInstruction)
+    }, options.signal);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *chatStream(turns: ChatTurn[], options: GenerationOptions): AsyncGenerator<string> {
+    const response = await this.post('/chat/completions', {
+      model: options.model,
+      temperature: options.temperature,
+      messages: this.toMessages(turns, options.systemInstruction),
+      stream: true
+    }, options.signal);
+    if (!response.body) throw new Error('Streaming is not supported by this server.');
+
+    // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') return;
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          console.warn('[OpenAICompatibleProvider] Skipping malformed stream line:', data);
+        }
+      }
+    }
+  }
+
+  async *summarize(content: string, prompt: string, options: GenerationOptions): AsyncGenerator<string> {
+    yield* this.chatStream(
+      [{ role: 'user', text: `${prompt}\n\nDOCUMENT CONTENT:\n${content}` }],
+      { ...options, systemInstruction: options.systemInstruction || SUMMARY_SYSTEM_INSTRUCTION }
+    );
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.embeddingModel, input: texts })
+    });
+    if (!response.ok) {
+      if (EMBEDDINGS_UNAVAILABLE.includes(response.status)) this.embeddingsUnavailable = true;
+      throw await this.failure(response);
+    }
+    const data = await response.json();
+    const vectors = (data.data || []).map((d: { embedding: number[] }) => d.embedding);
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding request returned ${vectors.length} vectors for ${texts.length} inputs`);
+    }
+    return vectors;
+  }
+}
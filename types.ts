@@ -1,3 +1,27 @@
+export interface DocumentChunk {
+  id: string;
+  docId: string;
+  index: number;
+  text: string;
+  start: number; // character offset into DocumentFile.content
+  end: number;
+  page?: number; // 1-based PDF page the chunk starts on
+  section?: string; // breadcrumb of enclosing section titles, e.g. "Chapter 4 › Installation"
+  symbol?: string; // source files: enclosing function or class, e.g. "AuthService.login"
+  startLine?: number; // source files: 1-based line range of the chunk
+  endLine?: number;
+  senders?: string[]; // mail and chat exports: authors of the messages in the chunk
+  firstDate?: number; // epoch ms of the earliest and latest message in the chunk
+  lastDate?: number;
+  threadId?: string;
+  rows?: RowRange[]; // tables: rows the chunk covers, or the rows a table query was computed from
+}
+
+export interface DocumentSection {
+  title: string;
+  level: number; // 1 = top level
+  start: number; // character offset into DocumentFile.content where the section begins
+}
 
 export interface DocumentFile {
   id: string;
@@ -6,6 +30,86 @@ export interface DocumentFile {
   size: number;
   type: string;
   uploadDate: number;
+  path?: string; // relative path for files imported from a folder or archive, e.g. "specs/api/auth.pdf"
+  chunks?: DocumentChunk[];
+  pageOffsets?: number[]; // PDFs only: start offset of each page in content
+  sections?: DocumentSection[]; // headings of structured formats (HTML, Markdown, EPUB), in document order
+  ocrPages?: OcrPage[]; // pages whose text came from OCR rather than a text layer
+  language?: CodeLanguage; // set for source files, which are chunked by symbol
+  messages?: MessageRecord[]; // mail and chat exports, in content order
+  table?: TableSchema; // CSV, JSON and YAML; the rows themselves live in IndexedDB (tableStore)
+  contentHash?: string; // SHA-256 of the uploaded bytes, used to reject duplicates
+  lineageId?: string; // shared by every version of a document (the first version's id)
+  version?: number; // 1-based; set once a second version is uploaded
+  archived?: boolean; // an inactive version: kept for history and diffs, excluded from chat and search
+}
+
+export type TableCell = string | number | boolean | null;
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+export interface TableColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface TableSchema {
+  format: 'csv' | 'json' | 'yaml';
+  kind: 'rows' | 'paths'; // paths: a config flattened into path/value records
+  columns: TableColumn[];
+  rowCount: number;
+  rowOffsets: number[]; // start of each rendered row in DocumentFile.content; very long tables render only a prefix
+}
+
+// Inclusive, 1-based range of table rows
+export type RowRange = [number, number];
+
+export interface MessageRecord {
+  id: string; // Message-ID, or the chat message id / timestamp
+  threadId: string;
+  from: string;
+  to: string[]; // recipients; the channel for chat messages
+  date?: number; // epoch ms
+  subject?: string; // email subject, or the channel / chat name
+  start: number; // character range of the rendered message in DocumentFile.content
+  end: number;
+}
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java' | 'c' | 'cpp' | 'rust';
+
+export interface OcrPage {
+  page: number; // 1-based; images are a single page
+  confidence: number; // 0-100
+  language: string;
+}
+
+export interface Citation {
+  index: number; // the [n] marker used in the answer text
+  docId: string;
+  docName: string;
+  chunkId: string;
+  start: number;
+  end: number;
+  page?: number;
+  section?: string;
+  symbol?: string;
+  startLine?: number;
+  endLine?: number;
+  rows?: RowRange[];
+  version?: number; // revision of the document the excerpt came from
+}
+
+export interface ClaimCheck {
+  start: number; // character range of the claim in Message.text
+  end: number;
+  supported: boolean;
+  overlap: number; // 0-1 share of the claim's terms found in the best source chunk
+}
+
+export interface GroundingReport {
+  score: number; // 0-1 share of claims supported by the retrieved chunks
+  claims: ClaimCheck[];
+  modelChecked: boolean;
 }
 
 export interface Message {
@@ -14,6 +118,14 @@ export interface Message {
   text: string;
   timestamp: number;
   sources?: string[];
+  citations?: Citation[];
+  grounding?: GroundingReport;
+  stopped?: boolean; // generation was stopped; text is what had arrived
+  // Forks at this message (regenerated answers, edited questions): each
+  // variant is this message and everything after it. The shown one's slot
+  // is left empty, since the conversation itself holds it.
+  variants?: Message[][];
+  variantIndex?: number;
 }
 
 export enum AppState {
@@ -4,7 +4,7 @@
  */
 
 export interface AnalyticsEvent {
-  type: 'document_upload' | 'document_delete' | 'query_sent' | 'document_summarize' | 'search_performed';
+  type: 'document_upload' | 'document_delete' | 'query_sent' | 'document_summarize' | 'search_performed' | 'answer_verified';
   timestamp: number;
   documentCount?: number;
   tokensUsed?: number;
@@ -125,6 +125,17 @@ class AnalyticsServiceClass {
     });
   }
 
+  /**
+   * Track groundedness (0-1) of a verified answer
+   */
+  trackGrounding(groundedness: number, claimCount: number): void {
+    this.trackEvent({
+      type: 'answer_verified',
+      timestamp: Date.now(),
+      metadata: { groundedness, claimCount }
+    });
+  }
+
   /**
    * Flush event buffer to storage
    */
@@ -208,12 +219,17 @@ class AnalyticsServiceClass {
       documentsPerDay: {} as Record<string, number>,
       queriesPerDay: {} as Record<string, number>,
       topKeywords: [] as Array<{ keyword: string; count: number }>,
+      avgGroundedness: null as number | null,
+      verifiedAnswers: 0,
+      groundednessPerDay: {} as Record<string, number>,
       uptime: 0
     };
 
     // Process events
     let totalResponseTime = 0;
     let responseCount = 0;
+    let totalGroundedness = 0;
+    const groundednessByDay: Record<string, { total: number; count: number }> = {};
 
     data.events.forEach(event => {
       const date = new Date(event.timestamp).toISOString().split('T')[0];
@@ -236,9 +252,24 @@ class AnalyticsServiceClass {
           const keyword = event.metadata?.query || 'unknown';
           // Track keyword frequency
           break;
+        case 'answer_verified':
+          const groundedness = event.metadata?.groundedness;
+          if (typeof groundedness === 'number') {
+            stats.verifiedAnswers += 1;
+            totalGroundedness += groundedness;
+            const day = groundednessByDay[date] || (groundednessByDay[date] = { total: 0, count: 0 });
+            day.total += groundedness;
+            day.count += 1;
+          }
+          break;
       }
     });
 
+    stats.avgGroundedness = stats.verifiedAnswers > 0 ? totalGroundedness / stats.verifiedAnswers : null;
+    Object.entries(groundednessByDay).forEach(([date, { total, count }]) => {
+      stats.groundednessPerDay[date] = total / count;
+    });
+
     // Calculate derived stats
     stats.avgResponseTime = responseCount > 0 ? totalResponseTime / responseCount : 0;
     stats.totalCost = (stats.totalTokens / 1000000) * 0.075; // $0.075 per 1M tokens
@@ -0,0 +1,76 @@
+import { tokenize } from "./tokenizer";
+
+export interface BM25Match {
+  id: string;
+  score: number;
+}
+
+/**
+ * Inverted index with Okapi BM25 scoring. Unlike raw match counting, BM25
+ * rewards rare terms (part numbers, codes) and normalizes for length.
+ */
+export class BM25Index {
+  private postings = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  add(id: string, text: string): void {
+    if (this.lengths.has(id)) this.remove(id);
+
+    const tokens = tokenize(text);
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+
+    tokens.forEach(term => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, (posting.get(id) || 0) + 1);
+    });
+  }
+
+  remove(id: string): void {
+    const length = this.lengths.get(id);
+    if (length === undefined) return;
+
+    this.lengths.delete(id);
+    this.totalLength -= length;
+    this.postings.forEach((posting, term) => {
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    });
+  }
+
+  search(query: string, k: number): BM25Match[] {
+    const n = this.lengths.size;
+    if (n === 0) return [];
+
+    const avgLength = this.totalLength / n || 1;
+    const scores = new Map<string, number>();
+
+    Array.from(new Set(tokenize(query))).forEach(term => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((tf, id) => {
+        const length = this.lengths.get(id) || 0;
+        const norm = tf + this.k1 * (1 - this.b + this.b * (length / avgLength));
+        scores.set(id, (scores.get(id) || 0) + idf * (tf * (this.k1 + 1)) / norm);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
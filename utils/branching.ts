@@ -0,0 +1,49 @@
+import { Message } from "../types";
+
+/**
+ * Branching conversations. A conversation's messages are the path being
+ * shown; a message where the conversation forked carries the other
+ * versions of the path from there on (see Message.variants). Regenerating
+ * an answer or editing a question adds a version; paging switches to one.
+ */
+
+const detach = ({ variants, variantIndex, ...message }: Message): Message => message;
+
+// Number of versions of the path from this message on
+export const variantCount = (message: Message): number => message.variants?.length || 1;
+
+/**
+ * Fork at `index`: the path from there is kept as a variant and `tail`
+ * becomes the shown version
+ */
+export const addVariant = (messages: Message[], index: number, tail: Message[]): Message[] => {
+  const head = messages[index];
+  const variants = head.variants ? [...head.variants] : [[]];
+  variants[head.variantIndex ?? 0] = [detach(head), ...messages.slice(index + 1)];
+  variants.push([]);
+  return [...messages.slice(0, index), { ...tail[0], variants, variantIndex: variants.length - 1 }, ...tail.slice(1)];
+};
+
+/**
+ * Show another version of the path from `index` on
+ */
+export const switchVariant = (messages: Message[], index: number, to: number): Message[] => {
+  const head = messages[index];
+  if (!head.variants || to === head.variantIndex || !head.variants[to]?.length) return messages;
+  const variants = [...head.variants];
+  variants[head.variantIndex ?? 0] = [detach(head), ...messages.slice(index + 1)];
+  const [shown, ...rest] = variants[to];
+  variants[to] = [];
+  return [...messages.slice(0, index), { ...shown, variants, variantIndex: to }, ...rest];
+};
+
+/**
+ * Apply `update` to every message, including those in hidden variants
+ */
+export const mapMessageTree = (messages: Message[], update: (message: Message) => Message): Message[] =>
+  messages.map(message => {
+    const updated = update(message);
+    return message.variants
+      ? { ...updated, variants: message.variants.map(variant => mapMessageTree(variant, update)) }
+      : updated;
+  });
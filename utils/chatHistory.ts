@@ -0,0 +1,77 @@
+import { Message } from "../types";
+import { ChatTurn } from "../services/llmProvider";
+
+/**
+ * Reconstructing model-side chat history for a restored conversation.
+ * History that has grown past the token budget is compacted: older turns
+ * are replaced by a summary and only the latest exchanges stay verbatim.
+ */
+
+// Rough budget for prior turns sent with every question
+export const HISTORY_TOKEN_BUDGET = 8000;
+// Latest turns (3 exchanges) always kept word for word
+const RECENT_TURNS = 6;
+
+export const SUMMARY_PREFIX = 'Summary of our conversation so far:';
+
+// ~4 characters per token for English text; good enough for a budget
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const historyTokens = (turns: ChatTurn[]): number =>
+  turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+
+/**
+ * Turns rebuilt from rendered messages, for conversations saved without
+ * model history. Each question is paired with the reply that follows it;
+ * the welcome message and unanswered questions are left out.
+ */
+export const turnsFromMessages = (messages: Message[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  messages.forEach((message, i) => {
+    const reply = messages[i + 1];
+    if (message.role === 'user' && reply?.role === 'assistant' && reply.text) {
+      turns.push({ role: 'user', text: message.text }, { role: 'model', text: reply.text });
+    }
+  });
+  return turns;
+};
+
+export const buildHistorySummaryPrompt = (turns: ChatTurn[]): string => {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'USER' : 'ASSISTANT'}: ${turn.text.trim()}`)
+    .join('\n\n');
+
+  return `CONVERSATION:
+${transcript}
+
+Summarize this conversation so it can be continued without the transcript. Keep the questions asked, the facts, figures and names in the answers, the documents they came from, and anything left open. Be concise; use bullet points.`;
+};
+
+/**
+ * Fit history into the token budget. Older turns are summarized with
+ * `summarize`; if that fails they are dropped, so a restored chat still
+ * starts. The summary goes in as a user/model pair to keep turns alternating.
+ */
+export const compactHistory = async (
+  history: ChatTurn[],
+  summarize: (turns: ChatTurn[]) => Promise<string>
+): Promise<ChatTurn[]> => {
+  if (historyTokens(history) <= HISTORY_TOKEN_BUDGET || history.length <= RECENT_TURNS) {
+    return history;
+  }
+
+  const older = history.slice(0, -RECENT_TURNS);
+  const recent = history.slice(-RECENT_TURNS);
+  try {
+    const summary = (await summarize(older)).trim();
+    if (!summary) throw new Error('Empty summary');
+    return [
+      { role: 'user', text: `${SUMMARY_PREFIX}\n${summary}` },
+      { role: 'model', text: 'Understood. I will keep this in mind.' },
+      ...recent
+    ];
+  } catch (error) {
+    console.warn('[ChatHistory] Could not summarize earlier turns; keeping only the latest:', error);
+    return recent;
+  }
+};
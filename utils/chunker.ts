@@ -0,0 +1,229 @@
+import { DocumentChunk, DocumentFile, DocumentSection, MessageRecord, RowRange } from "../types";
+import { chunkCode } from "./codeChunker";
+
+export interface ChunkOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSize: 1200,
+  overlap: 200
+};
+
+/**
+ * Find a natural place to end a chunk: prefer a paragraph break, then a
+ * sentence end, then whitespace, searching backwards from the hard limit.
+ */
+const findBreak = (text: string, start: number, hardEnd: number): number => {
+  if (hardEnd >= text.length) return text.length;
+  const minEnd = start + Math.floor((hardEnd - start) / 2);
+  const window = text.slice(minEnd, hardEnd);
+
+  const paragraph = window.lastIndexOf('\n\n');
+  if (paragraph !== -1) return minEnd + paragraph + 2;
+
+  const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '), window.lastIndexOf('\n'));
+  if (sentence !== -1) return minEnd + sentence + 1;
+
+  const space = window.lastIndexOf(' ');
+  if (space !== -1) return minEnd + space + 1;
+
+  return hardEnd;
+};
+
+/**
+ * Split a document body into overlapping chunks. Offsets always point back
+ * into the original text so callers can highlight or cite the exact span.
+ */
+export const chunkText = (
+  docId: string,
+  text: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  const { chunkSize, overlap } = options;
+  let start = 0;
+
+  while (start < text.length) {
+    const end = findBreak(text, start, Math.min(text.length, start + chunkSize));
+    const slice = text.slice(start, end);
+
+    if (slice.trim().length > 0) {
+      chunks.push({
+        id: `${docId}#${chunks.length}`,
+        docId,
+        index: chunks.length,
+        text: slice,
+        start,
+        end
+      });
+    }
+
+    if (end >= text.length) break;
+    // Step back by the overlap, but always make forward progress
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+};
+
+/**
+ * 1-based page containing a character offset, for documents with page offsets
+ */
+export const pageForOffset = (doc: DocumentFile, offset: number): number | undefined => {
+  if (!doc.pageOffsets || doc.pageOffsets.length === 0) return undefined;
+  let page = 0;
+  while (page + 1 < doc.pageOffsets.length && doc.pageOffsets[page + 1] <= offset) page++;
+  return page + 1;
+};
+
+export const SECTION_SEPARATOR = ' › ';
+
+/**
+ * Breadcrumb of the sections enclosing an offset, e.g. "Chapter 4 › Installation"
+ */
+export const sectionPathForOffset = (doc: DocumentFile, offset: number): string | undefined => {
+  if (!doc.sections || doc.sections.length === 0) return undefined;
+  const stack: DocumentSection[] = [];
+  for (const section of doc.sections) {
+    if (section.start > offset) break;
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop();
+    stack.push(section);
+  }
+  return stack.length > 0 ? stack.map(s => s.title).join(SECTION_SEPARATOR) : undefined;
+};
+
+interface Span {
+  start: number;
+  end: number;
+  labelAt: number; // offset whose section breadcrumb labels the span's chunks
+}
+
+/**
+ * Spans to chunk independently so chunks do not straddle sections.
+ * A section holding nothing but its heading (e.g. "# Chapter 4" directly
+ * followed by "## Intro") is folded into the next one, which then labels
+ * the chunks with the deeper breadcrumb.
+ */
+const sectionSpans = (doc: DocumentFile): Span[] => {
+  const starts = [0, ...(doc.sections || []).map(s => s.start).filter(start => start > 0 && start < doc.content.length)];
+  const spans: Span[] = [];
+  let pendingStart: number | null = null;
+
+  starts.forEach((start, i) => {
+    const end = starts[i + 1] ?? doc.content.length;
+    const body = doc.content.slice(start, end);
+    const headingOnly = i + 1 < starts.length && !body.slice(body.indexOf('\n') + 1).trim() && body.indexOf('\n') !== -1;
+    if (headingOnly || !body.trim()) {
+      pendingStart ??= start;
+      return;
+    }
+    spans.push({ start: pendingStart ?? start, end, labelAt: start });
+    pendingStart = null;
+  });
+  if (pendingStart !== null) spans.push({ start: pendingStart, end: doc.content.length, labelAt: pendingStart });
+  return spans;
+};
+
+/**
+ * Mail and chat exports: consecutive messages of one thread are packed into
+ * a span up to the chunk size, so short chat lines share a chunk while a
+ * chunk never mixes threads. Longer messages get a span of their own.
+ */
+const messageSpans = (messages: MessageRecord[], chunkSize: number): Span[] => {
+  const spans: Span[] = [];
+  let group: MessageRecord[] = [];
+  const flush = () => {
+    if (group.length > 0) spans.push({ start: group[0].start, end: group[group.length - 1].end, labelAt: group[0].start });
+    group = [];
+  };
+  messages.forEach(message => {
+    const first = group[0];
+    if (first && (first.threadId !== message.threadId || message.end - first.start > chunkSize)) flush();
+    group.push(message);
+  });
+  flush();
+  return spans;
+};
+
+/**
+ * Sender, date and thread metadata of the messages a chunk overlaps
+ */
+const messageMetadata = (messages: MessageRecord[], start: number, end: number): Partial<DocumentChunk> => {
+  // Messages are in content order: find the first one ending after `start`
+  let first = 0;
+  let last = messages.length;
+  while (first < last) {
+    const mid = (first + last) >> 1;
+    if (messages[mid].end <= start) first = mid + 1;
+    else last = mid;
+  }
+  const inChunk: MessageRecord[] = [];
+  for (let i = first; i < messages.length && messages[i].start < end; i++) inChunk.push(messages[i]);
+  if (inChunk.length === 0) return {};
+  const dates = inChunk.map(m => m.date).filter((date): date is number => date !== undefined);
+  return {
+    section: inChunk[0].subject,
+    senders: Array.from(new Set(inChunk.map(m => m.from))),
+    firstDate: dates.length > 0 ? Math.min(...dates) : undefined,
+    lastDate: dates.length > 0 ? Math.max(...dates) : undefined,
+    threadId: inChunk[0].threadId
+  };
+};
+
+/**
+ * Table rows whose rendered lines overlap a chunk. Row offsets are sorted,
+ * so the overlapping rows form one range.
+ */
+const rowsForSpan = (rowOffsets: number[], start: number, end: number): RowRange[] | undefined => {
+  let first = 0;
+  let last = rowOffsets.length;
+  // Last row starting at or before `start`
+  while (first < last) {
+    const mid = (first + last) >> 1;
+    if (rowOffsets[mid] <= start) first = mid + 1;
+    else last = mid;
+  }
+  // A chunk starting in the header begins at the first row
+  const from = Math.max(first - 1, 0);
+  if (rowOffsets.length === 0 || rowOffsets[from] >= end) return undefined;
+  let to = from;
+  while (to + 1 < rowOffsets.length && rowOffsets[to + 1] < end) to++;
+  return [[from + 1, to + 1]];
+};
+
+export const chunkDocument = (doc: DocumentFile, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): DocumentChunk[] => {
+  if (doc.language) return chunkCode(doc.id, doc.content, doc.language, options.chunkSize);
+
+  const spans = doc.messages && doc.messages.length > 0
+    ? messageSpans(doc.messages, options.chunkSize)
+    : doc.sections && doc.sections.length > 0
+      ? sectionSpans(doc)
+      : [{ start: 0, end: doc.content.length, labelAt: 0 }];
+
+  const chunks = spans.flatMap(span =>
+    chunkText(doc.id, doc.content.slice(span.start, span.end), options).map(chunk => ({
+      ...chunk,
+      start: chunk.start + span.start,
+      end: chunk.end + span.start,
+      labelAt: Math.max(chunk.start + span.start, span.labelAt)
+    }))
+  );
+
+  return chunks.map(({ labelAt, ...chunk }, index) => {
+    const located: DocumentChunk = { ...chunk, id: `${doc.id}#${index}`, index };
+    if (doc.pageOffsets) located.page = pageForOffset(doc, chunk.start);
+    if (doc.sections) located.section = sectionPathForOffset(doc, labelAt);
+    if (doc.messages) Object.assign(located, messageMetadata(doc.messages, chunk.start, chunk.end));
+    if (doc.table) located.rows = rowsForSpan(doc.table.rowOffsets, chunk.start, chunk.end);
+    return located;
+  });
+};
+
+/**
+ * Documents restored from older sessions were saved before chunking existed,
+ * so fill in any that are missing.
+ */
+export const ensureChunks = (docs: DocumentFile[]): DocumentFile[] =>
+  docs.map(doc => (doc.chunks && doc.chunks.length > 0) ? doc : { ...doc, chunks: chunkDocument(doc) });
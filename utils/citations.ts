@@ -0,0 +1,77 @@
+import { Citation } from "../types";
+import { RetrievedChunk } from "./retriever";
+import { formatRowRanges } from "./tableQuery";
+
+// Matches [1], [2, 3] and [1][4]; each bracket may hold a comma-separated list
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// Legacy style the model sometimes falls back to: [Document Name]
+const NAME_PATTERN = /\[([^\[\]\d][^\[\]]*)\]/g;
+
+/**
+ * Resolve the citation markers in an answer against the excerpts that were
+ * sent with the question. Marker numbers refer to the excerpt order, so the
+ * returned citations keep those numbers.
+ */
+export const parseCitations = (answer: string, retrieved: RetrievedChunk[]): Citation[] => {
+  const citations = new Map<number, Citation>();
+
+  const cite = (index: number) => {
+    const source = retrieved[index - 1];
+    if (!source || citations.has(index)) return;
+    citations.set(index, {
+      index,
+      docId: source.chunk.docId,
+      docName: source.docName,
+      chunkId: source.chunk.id,
+      start: source.chunk.start,
+      end: source.chunk.end,
+      page: source.chunk.page,
+      section: source.chunk.section,
+      symbol: source.chunk.symbol,
+      startLine: source.chunk.startLine,
+      endLine: source.chunk.endLine,
+      rows: source.chunk.rows,
+      version: source.docVersion
+    });
+  };
+
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    match[1].split(',').forEach(n => cite(parseInt(n.trim(), 10)));
+  }
+
+  // Map [Document Name] to the best-ranked excerpt from that document
+  for (const match of answer.matchAll(NAME_PATTERN)) {
+    const name = match[1].trim().toLowerCase();
+    const position = retrieved.findIndex(r => r.docName.toLowerCase() === name);
+    if (position >= 0) cite(position + 1);
+  }
+
+  return Array.from(citations.values()).sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Short human-readable location, e.g. "report.pdf · p. 4",
+ * "guide.epub · Chapter 4 › Installation", for source files
+ * "src/auth.ts:42 · AuthService.login" and for tables "sales.csv · rows 3–5, 9".
+ * Versioned documents end with the revision, e.g. "policy.pdf · p. 2 · v3".
+ */
+export const formatCitationLabel = (citation: Citation): string => {
+  const parts = citation.startLine
+    ? [`${citation.docName}:${citation.startLine}`, citation.symbol]
+    : citation.rows && citation.rows.length > 0
+      ? [citation.docName, formatRowRanges(citation.rows)]
+      : [citation.docName, citation.section, citation.page && `p. ${citation.page}`];
+  return [...parts, citation.version && `v${citation.version}`].filter(Boolean).join(' · ');
+};
+
+/**
+ * Rewrite the [n] markers of an answer, e.g. into footnote references.
+ * Numbers `replace` returns null for are left as written.
+ */
+export const mapCitationMarkers = (answer: string, replace: (index: number) => string | null): string =>
+  answer.replace(MARKER_PATTERN, (marker, list: string) => {
+    const numbers = list.split(',').map(n => parseInt(n.trim(), 10));
+    const replaced = numbers.map(replace);
+    if (replaced.every(r => r === null)) return marker;
+    return numbers.map((n, i) => replaced[i] ?? `[${n}]`).join('');
+  });
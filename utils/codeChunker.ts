@@ -0,0 +1,457 @@
+import { CodeLanguage, DocumentChunk } from "../types";
+
+/**
+ * Symbol-aware chunking for source files. Top-level functions, classes and
+ * types become their own chunks so a retrieved excerpt holds a whole
+ * definition; classes too large for one chunk are split into their methods.
+ * Languages without symbol rules fall back to line windows, so every code
+ * chunk still carries a line range for file:line citations.
+ */
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.rs': 'rust'
+};
+
+export const CODE_EXTENSIONS = Object.keys(EXTENSION_LANGUAGES);
+
+export const detectCodeLanguage = (name: string): CodeLanguage | null => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? null : EXTENSION_LANGUAGES[name.slice(dot).toLowerCase()] || null;
+};
+
+interface SymbolPattern {
+  regex: RegExp;
+  container?: boolean; // class-like: split into members when too large
+  name?: (match: RegExpMatchArray) => string; // defaults to the first group
+}
+
+interface BraceRules {
+  top: SymbolPattern[];
+  member: SymbolPattern[];
+  singleQuoteStrings: boolean; // false: '…' is a char literal (or a Rust lifetime)
+  multiLineQuote?: string; // template literals, Go raw strings
+  regexLiterals?: boolean;
+}
+
+// Identifiers the member patterns would otherwise take for method names
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'else', 'do', 'try', 'synchronized', 'super', 'this']);
+
+const TS_TOP: SymbolPattern[] = [
+  { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:class|interface|namespace|module)\s+([A-Za-z_$][\w$]*)/, container: true },
+  { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:function(?:\s*\*\s*|\s+)|(?:const\s+)?enum\s+|type\s+)([A-Za-z_$][\w$]*)/ },
+  { regex: /^\s*(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/ }
+];
+
+const BRACE_RULES: Partial<Record<CodeLanguage, BraceRules>> = {
+  typescript: {
+    top: TS_TOP,
+    member: [
+      ...TS_TOP,
+      { regex: /^\s*(?:(?:public|private|protected|static|readonly|async|override|abstract|declare|get|set)\s+)*\*?(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/ },
+      { regex: /^\s*(?:(?:public|private|protected|static|readonly)\s+)*(#?[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/ }
+    ],
+    singleQuoteStrings: true,
+    multiLineQuote: '`',
+    regexLiterals: true
+  },
+  go: {
+    top: [
+      { regex: /^func\s*\(\s*(?:\w+\s+)?\*?\s*(\w+)[^)]*\)\s*(\w+)/, name: m => `${m[1]}.${m[2]}` },
+      { regex: /^func\s+(\w+)/ },
+      { regex: /^type\s+(\w+)/ },
+      { regex: /^(?:var|const)\s+(\w+)/ }
+    ],
+    member: [],
+    singleQuoteStrings: false,
+    multiLineQuote: '`'
+  },
+  java: {
+    top: [
+      { regex: /^\s*(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/, container: true }
+    ],
+    member: [
+      { regex: /^\s*(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/, container: true },
+      { regex: /^\s*(?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\s+)*(?:<[^>]+>\s+)?(?:[\w$.]+(?:<[^()]*>)?(?:\[\])*\s+)?(\w+)\s*\([^;]*$/ }
+    ],
+    singleQuoteStrings: false
+  }
+};
+BRACE_RULES.javascript = BRACE_RULES.typescript;
+
+interface CodeSymbol {
+  name: string;
+  startLine: number; // 0-based, including leading comments, decorators and annotations
+  headerLine: number; // the declaration itself
+  endLine: number; // 0-based, inclusive
+  depth: number; // nesting level of the declaration (indentation for Python)
+  container: boolean;
+}
+
+/**
+ * Index just past the closing quote, or -1 if the string runs past the line
+ */
+const skipQuoted = (line: string, from: number, quote: string): number => {
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === '\\') i++;
+    else if (line[i] === quote) return i + 1;
+  }
+  return -1;
+};
+
+// A "/" after one of these (or at the start of a line) begins a regex, not a division
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+
+/**
+ * Index just past the closing slash of a regex literal, or -1
+ */
+const skipRegex = (line: string, from: number): number => {
+  let inClass = false;
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === '\\') i++;
+    else if (line[i] === '[') inClass = true;
+    else if (line[i] === ']') inClass = false;
+    else if (line[i] === '/' && !inClass) return i + 1;
+  }
+  return -1;
+};
+
+interface BraceScan {
+  depths: number[]; // bracket depth at the start of each line, plus one entry past the end
+}
+
+const OPENERS = '{([';
+const CLOSERS = '})]';
+
+/**
+ * Track bracket depth line by line, ignoring brackets inside strings and
+ * comments. Parentheses and square brackets count too, so multi-line
+ * signatures and array literals read as one statement.
+ */
+const scanBraces = (lines: string[], rules: BraceRules): BraceScan => {
+  const depths = [0];
+  let depth = 0;
+  let open: string | null = null; // '*/' or the multi-line quote we are inside
+
+  for (const line of lines) {
+    let i = 0;
+    while (i < line.length) {
+      if (open) {
+        const close = open === '*/' ? line.indexOf('*/', i) : skipQuoted(line, i, open) - 1;
+        if (close < 0) break;
+        i = close + open.length;
+        open = null;
+        continue;
+      }
+      const ch = line[i];
+      if (ch === '/' && line[i + 1] === '/') break;
+      if (ch === '/' && line[i + 1] === '*') {
+        open = '*/';
+        i += 2;
+      } else if (ch === '"' || (ch === "'" && rules.singleQuoteStrings) || ch === rules.multiLineQuote) {
+        const end = skipQuoted(line, i + 1, ch);
+        if (end < 0) {
+          if (ch === rules.multiLineQuote) open = ch;
+          break;
+        }
+        i = end;
+      } else if (ch === '/' && rules.regexLiterals && REGEX_PRECEDERS.includes(line.slice(0, i).trim().slice(-1) || ';')) {
+        const end = skipRegex(line, i + 1);
+        i = end < 0 ? i + 1 : end;
+      } else if (ch === "'") {
+        const literal = line.slice(i).match(/^'(?:\\.[^']*|[^'\\])'/);
+        i += literal ? literal[0].length : 1;
+      } else {
+        if (OPENERS.includes(ch)) depth++;
+        else if (CLOSERS.includes(ch)) depth = Math.max(0, depth - 1);
+        i++;
+      }
+    }
+    depths.push(depth);
+  }
+  return { depths };
+};
+
+// A statement carries on past a line ending like this, or into a line starting like this
+const CONTINUED_LINE_END = /(?:[=,(&|+:?]|=>)\s*$/;
+const CONTINUATION_START = /^\s*(?:[{|&.?:+]|=>|throws\b|extends\b|implements\b)/;
+
+const matchSymbol = (line: string, patterns: SymbolPattern[]): { name: string; container: boolean } | null => {
+  for (const pattern of patterns) {
+    const match = line.match(pattern.regex);
+    if (match && !KEYWORDS.has(match[1])) {
+      return { name: pattern.name ? pattern.name(match) : match[1], container: !!pattern.container };
+    }
+  }
+  return null;
+};
+
+// Doc comments, decorators and annotations that belong to the declaration below them
+const BRACE_LEADING_LINE = /^\s*(\/\/|\/\*|\*|@)/;
+const PYTHON_LEADING_LINE = /^\s*(#|@)/;
+
+/**
+ * Move a symbol's start up over the leading lines directly above it
+ */
+const withLeadingLines = (lines: string[], start: number, floor: number, leading: RegExp, sameLevel: (line: number) => boolean): number => {
+  while (start - 1 > floor && leading.test(lines[start - 1]) && sameLevel(start - 1)) start--;
+  return start;
+};
+
+/**
+ * Symbols declared at `depth` between two lines of a brace language
+ */
+const braceSymbols = (lines: string[], scan: BraceScan, patterns: SymbolPattern[], depth: number, from: number, to: number): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  let previousEnd = from - 1;
+
+  for (let line = from; line <= to; line++) {
+    if (scan.depths[line] !== depth) continue;
+    const match = matchSymbol(lines[line], patterns);
+    if (!match) continue;
+
+    // The declaration ends on the first line that closes all its brackets
+    // and is not continued by the next one (e.g. an Allman-style "{")
+    let end = line;
+    while (end < to && (scan.depths[end + 1] > depth || CONTINUED_LINE_END.test(lines[end]) || CONTINUATION_START.test(lines[end + 1]))) {
+      end++;
+    }
+    const start = withLeadingLines(lines, line, previousEnd, BRACE_LEADING_LINE, l => scan.depths[l] === depth);
+    symbols.push({ ...match, startLine: start, headerLine: line, endLine: end, depth });
+    previousEnd = end;
+    line = end;
+  }
+  return symbols;
+};
+
+const PYTHON_PATTERN = /^(\s*)(?:async\s+def|def|class)\s+(\w+)/;
+
+const indentOf = (line: string): number => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+/**
+ * Lines inside triple-quoted strings, which do not follow the indentation
+ */
+const pythonStringLines = (lines: string[]): boolean[] => {
+  let inside = false;
+  return lines.map(line => {
+    const wasInside = inside;
+    const quotes = (line.match(/"""|'''/g) || []).length;
+    if (quotes % 2 === 1) inside = !inside;
+    return wasInside;
+  });
+};
+
+/**
+ * Python definitions at one indentation level; a definition runs until the
+ * next code line indented no deeper than its own header
+ */
+const pythonSymbols = (lines: string[], inString: boolean[], indent: number | null, from: number, to: number): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  let previousEnd = from - 1;
+
+  for (let line = from; line <= to; line++) {
+    const match = inString[line] ? null : lines[line].match(PYTHON_PATTERN);
+    if (!match) continue;
+    const level = indentOf(match[1]);
+    if (indent === null) indent = level;
+    if (level !== indent) continue;
+
+    let next = line + 1;
+    while (next <= to) {
+      const text = lines[next];
+      const endsBlock = !inString[next] && text.trim() && indentOf(text) <= level && !/^\s*[)\]}#]/.test(text);
+      if (endsBlock) break;
+      next++;
+    }
+    let end = next - 1;
+    while (end > line && !lines[end].trim()) end--;
+
+    const start = withLeadingLines(lines, line, previousEnd, PYTHON_LEADING_LINE, l => indentOf(lines[l]) === level);
+    symbols.push({ name: match[2], startLine: start, headerLine: line, endLine: end, depth: level, container: lines[line].trim().startsWith('class') });
+    previousEnd = end;
+    line = end;
+  }
+  return symbols;
+};
+
+interface Segment {
+  startLine: number;
+  endLine: number;
+  symbols: string[];
+}
+
+interface SymbolFinder {
+  top: (from: number, to: number) => CodeSymbol[];
+  members: (symbol: CodeSymbol) => CodeSymbol[];
+}
+
+const symbolFinder = (lines: string[], language: CodeLanguage): SymbolFinder | null => {
+  if (language === 'python') {
+    const inString = pythonStringLines(lines);
+    return {
+      top: (from, to) => pythonSymbols(lines, inString, 0, from, to),
+      members: symbol => pythonSymbols(lines, inString, null, symbol.headerLine + 1, symbol.endLine)
+    };
+  }
+
+  const rules = BRACE_RULES[language];
+  if (!rules) return null;
+  const scan = scanBraces(lines, rules);
+  return {
+    top: (from, to) => braceSymbols(lines, scan, rules.top, 0, from, to),
+    members: symbol => braceSymbols(lines, scan, rules.member, symbol.depth + 1, symbol.headerLine + 1, symbol.endLine)
+  };
+};
+
+interface SourceLines {
+  lines: string[];
+  starts: number[]; // offset of each line, plus the text length
+}
+
+const spanLength = (source: SourceLines, startLine: number, endLine: number): number =>
+  source.starts[endLine + 1] - source.starts[startLine];
+
+const hasCode = (source: SourceLines, startLine: number, endLine: number): boolean =>
+  source.lines.slice(startLine, endLine + 1).some(line => line.trim());
+
+/**
+ * Cover lines `from`..`to` with segments: one per symbol, oversized
+ * containers expanded into their members, and the code between symbols
+ * (imports, fields, top-level statements) labeled with the parent.
+ */
+const segmentSymbols = (
+  source: SourceLines,
+  finder: SymbolFinder,
+  symbols: CodeSymbol[],
+  from: number,
+  to: number,
+  parent: string | undefined,
+  maxChars: number
+): Segment[] => {
+  const segments: Segment[] = [];
+  const gap = (start: number, end: number) => {
+    if (hasCode(source, start, end)) segments.push({ startLine: start, endLine: end, symbols: parent ? [parent] : [] });
+  };
+
+  let cursor = from;
+  symbols.forEach(symbol => {
+    gap(cursor, symbol.startLine - 1);
+    const name = parent ? `${parent}.${symbol.name}` : symbol.name;
+    const members = symbol.container && spanLength(source, symbol.startLine, symbol.endLine) > maxChars
+      ? finder.members(symbol)
+      : [];
+    if (members.length > 0) {
+      segments.push(...segmentSymbols(source, finder, members, symbol.startLine, symbol.endLine, name, maxChars));
+    } else {
+      segments.push({ startLine: symbol.startLine, endLine: symbol.endLine, symbols: [name] });
+    }
+    cursor = symbol.endLine + 1;
+  });
+  gap(cursor, to);
+  return segments;
+};
+
+// Symbols shorter than this are packed together rather than chunked alone
+const SMALL_SEGMENT_CHARS = 200;
+// A single definition may run this far past the chunk size before it is split
+const MAX_SYMBOL_FACTOR = 2;
+
+/**
+ * Pack runs of small segments (one-line constants, closing braces, short
+ * getters) together, up to the chunk size
+ */
+const packSegments = (source: SourceLines, segments: Segment[], maxChars: number): Segment[] => {
+  const packed: Segment[] = [];
+  const size = (s: Segment) => spanLength(source, s.startLine, s.endLine);
+  const isSmall = (s: Segment) => source.lines.slice(s.startLine, s.endLine + 1).join('\n').trim().length < SMALL_SEGMENT_CHARS;
+
+  segments.forEach(segment => {
+    const last = packed[packed.length - 1];
+    if (last && (isSmall(last) || isSmall(segment)) && spanLength(source, last.startLine, segment.endLine) <= maxChars) {
+      last.endLine = segment.endLine;
+      last.symbols.push(...segment.symbols.filter(name => !last.symbols.includes(name)));
+    } else {
+      packed.push({ ...segment, symbols: [...segment.symbols] });
+    }
+  });
+  return packed;
+};
+
+/**
+ * Break an oversized segment into windows of whole lines
+ */
+const splitSegment = (source: SourceLines, segment: Segment, maxChars: number): Segment[] => {
+  if (spanLength(source, segment.startLine, segment.endLine) <= maxChars * MAX_SYMBOL_FACTOR) return [segment];
+  const windows: Segment[] = [];
+  let start = segment.startLine;
+  while (start <= segment.endLine) {
+    let end = start;
+    while (end < segment.endLine && spanLength(source, start, end + 1) <= maxChars) end++;
+    windows.push({ ...segment, startLine: start, endLine: end });
+    start = end + 1;
+  }
+  return windows;
+};
+
+/**
+ * "AuthService, AuthService.login" reads as just "AuthService.login"
+ */
+const symbolLabel = (symbols: string[]): string | undefined => {
+  const names = symbols.filter(name => !symbols.some(other => other.startsWith(`${name}.`)));
+  return names.length > 0 ? names.join(', ') : undefined;
+};
+
+/**
+ * Chunk a source file along symbol boundaries. Offsets point into `text`
+ * like any other chunk; line numbers are 1-based and inclusive.
+ */
+export const chunkCode = (docId: string, text: string, language: CodeLanguage, maxChars: number): DocumentChunk[] => {
+  const lines = text.split('\n');
+  const starts = [0];
+  lines.forEach(line => starts.push(starts[starts.length - 1] + line.length + 1));
+  starts[lines.length] = text.length;
+  const source: SourceLines = { lines, starts };
+
+  const last = lines.length - 1;
+  const finder = symbolFinder(lines, language);
+  const segments = finder
+    ? packSegments(source, segmentSymbols(source, finder, finder.top(0, last), 0, last, undefined, maxChars), maxChars)
+    : [{ startLine: 0, endLine: last, symbols: [] }];
+
+  const chunks: DocumentChunk[] = [];
+  segments
+    .flatMap(segment => splitSegment(source, segment, maxChars))
+    .forEach(segment => {
+      const start = starts[segment.startLine];
+      const end = starts[segment.endLine + 1];
+      const slice = text.slice(start, end);
+      if (!slice.trim()) return;
+      chunks.push({
+        id: `${docId}#${chunks.length}`,
+        docId,
+        index: chunks.length,
+        text: slice,
+        start,
+        end,
+        symbol: symbolLabel(segment.symbols),
+        startLine: segment.startLine + 1,
+        endLine: segment.endLine + 1
+      });
+    });
+  return chunks;
+};
@@ -0,0 +1,286 @@
+import { DocumentFile, Message } from "../types";
+import { formatCitationLabel, mapCitationMarkers } from "./citations";
+import { MdBlock, MdInline, parseMarkdown } from "./markdown";
+import { highlightCode } from "./syntaxHighlight";
+import { MathNode, parseTex } from "./texMath";
+import { isActive, versionLabel } from "./versioning";
+
+/**
+ * Conversation exports for reports: Markdown, a standalone HTML page, and
+ * the same page printed to PDF. Each lists the documents the chat was
+ * using, stamps every message with its time, and turns citation markers
+ * into numbered footnotes quoting the cited passage.
+ */
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf';
+
+export interface ConversationExportInput {
+  title: string;
+  workspaceName: string;
+  messages: Message[]; // in order, from exportableMessages
+  documents: DocumentFile[]; // the workspace library, archived versions included
+}
+
+interface Footnote {
+  number: number;
+  label: string; // document and location, e.g. "report.pdf · p. 4"
+  quote?: string;
+}
+
+interface PreparedExport {
+  exportedAt: number;
+  entries: { message: Message; text: string }[]; // text with markers as [^n] footnote references
+  footnotes: Footnote[];
+  documents: { label: string; added: number; cited: boolean }[];
+}
+
+// Longest quoted passage in a footnote
+const MAX_QUOTE_LENGTH = 400;
+
+const FOOTNOTE_REF = /\[\^(\d+)\]/g;
+
+/**
+ * The messages worth exporting: from the first question on, without
+ * answers that never got any text
+ */
+export const exportableMessages = (messages: Message[]): Message[] => {
+  const first = messages.findIndex(m => m.role === 'user');
+  if (first < 0) return [];
+  return messages.slice(first).filter(m => m.role === 'user' || m.text.trim() || m.stopped);
+};
+
+const quoteFor = (documents: DocumentFile[], docId: string, start: number, end: number): string | undefined => {
+  const doc = documents.find(d => d.id === docId);
+  const passage = doc?.content?.slice(start, end).replace(/\s+/g, ' ').trim();
+  if (!passage) return undefined;
+  return passage.length > MAX_QUOTE_LENGTH ? `${passage.slice(0, MAX_QUOTE_LENGTH).trimEnd()}…` : passage;
+};
+
+/**
+ * Number the citations of all exported messages in one sequence and
+ * rewrite each answer's markers to match
+ */
+const prepareExport = ({ messages, documents }: ConversationExportInput): PreparedExport => {
+  const footnotes: Footnote[] = [];
+  const citedDocs = new Set<string>();
+
+  const entries = messages.map(message => {
+    const numbers = new Map<number, number>();
+    message.citations?.forEach(citation => {
+      const number = footnotes.length + 1;
+      numbers.set(citation.index, number);
+      citedDocs.add(citation.docId);
+      footnotes.push({
+        number,
+        label: formatCitationLabel(citation),
+        quote: quoteFor(documents, citation.docId, citation.start, citation.end)
+      });
+    });
+    const text = mapCitationMarkers(message.text, index => (numbers.has(index) ? `[^${numbers.get(index)}]` : null));
+    return { message, text };
+  });
+
+  return {
+    exportedAt: Date.now(),
+    entries,
+    footnotes,
+    // The documents in chat, plus any archived version an answer cited
+    documents: documents
+      .filter(doc => isActive(doc) || citedDocs.has(doc.id))
+      .map(doc => ({ label: versionLabel(doc), added: doc.uploadDate, cited: citedDocs.has(doc.id) }))
+  };
+};
+
+const roleLabel = (message: Message) => (message.role === 'user' ? 'You' : 'Assistant');
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/**
+ * The conversation as Markdown with GFM footnotes
+ */
+export const exportConversationMarkdown = (input: ConversationExportInput): string => {
+  const { exportedAt, entries, footnotes, documents } = prepareExport(input);
+  const lines = [
+    `# ${input.title}`,
+    '',
+    `Workspace: ${input.workspaceName} · Exported ${formatTime(exportedAt)}`,
+    '',
+    '## Documents',
+    '',
+    ...documents.map(doc => `- ${doc.label} · added ${formatTime(doc.added)}${doc.cited ? ' (cited)' : ''}`),
+    '',
+    '## Conversation'
+  ];
+
+  entries.forEach(({ message, text }) => {
+    lines.push('', `### ${roleLabel(message)} · ${formatTime(message.timestamp)}`, '', text.trim());
+    if (message.stopped) lines.push('', '_(stopped before the answer was complete)_');
+  });
+
+  if (footnotes.length > 0) {
+    lines.push('', '## Sources', '');
+    footnotes.forEach(note => {
+      lines.push(`[^${note.number}]: ${note.label}${note.quote ? ` — “${note.quote}”` : ''}`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Text with [^n] footnote references as superscript links
+const textHtml = (text: string): string =>
+  escapeHtml(text).replace(FOOTNOTE_REF, '<sup class="ref"><a href="#fn-$1">$1</a></sup>');
+
+const mathHtml = (nodes: MathNode[]): string =>
+  nodes.map(node => {
+    if (typeof node === 'string') return escapeHtml(node);
+    switch (node.type) {
+      case 'sup':
+        return `<sup>${mathHtml(node.children)}</sup>`;
+      case 'sub':
+        return `<sub>${mathHtml(node.children)}</sub>`;
+      case 'sqrt':
+        return `√<span class="sqrt">${mathHtml(node.children)}</span>`;
+      case 'frac':
+        return `<span class="frac"><span>${mathHtml(node.numerator)}</span><span>${mathHtml(node.denominator)}</span></span>`;
+    }
+  }).join('');
+
+const inlineHtml = (nodes: MdInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return textHtml(node.text);
+      case 'strong':
+        return `<strong>${inlineHtml(node.children)}</strong>`;
+      case 'em':
+        return `<em>${inlineHtml(node.children)}</em>`;
+      case 'del':
+        return `<del>${inlineHtml(node.children)}</del>`;
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case 'math':
+        return `<span class="math">${mathHtml(parseTex(node.tex))}</span>`;
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`;
+      case 'break':
+        return '<br>';
+    }
+  }).join('');
+
+const blocksHtml = (blocks: MdBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p>${inlineHtml(block.children)}</p>`;
+      case 'heading': {
+        const level = Math.min(block.level + 3, 6);
+        return `<h${level}>${inlineHtml(block.children)}</h${level}>`;
+      }
+      case 'code': {
+        const tokens = highlightCode(block.text, block.lang)
+          .map(token => (token.kind === 'plain' ? escapeHtml(token.text) : `<span class="tok-${token.kind}">${escapeHtml(token.text)}</span>`))
+          .join('');
+        return `<pre><code>${tokens}</code></pre>`;
+      }
+      case 'math':
+        return `<div class="math block">${mathHtml(parseTex(block.tex))}</div>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        return `<${tag}${start}>${block.items.map(item => `<li>${blocksHtml(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'quote':
+        return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+      case 'table': {
+        const cell = (tag: string, content: MdInline[], c: number) =>
+          `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ''}>${inlineHtml(content)}</${tag}>`;
+        const head = `<tr>${block.header.map((content, c) => cell('th', content, c)).join('')}</tr>`;
+        const rows = block.rows.map(row => `<tr>${row.map((content, c) => cell('td', content, c)).join('')}</tr>`).join('');
+        return `<table><thead>${head}</thead><tbody>${rows}</tbody></table>`;
+      }
+      case 'rule':
+        return '<hr>';
+    }
+  }).join('\n');
+
+const STYLES = `
+body { font: 15px/1.6 -apple-system, "Segoe UI", Roboto, sans-serif; color: #1e293b; max-width: 52rem; margin: 2rem auto; padding: 0 1.5rem; }
+header { border-bottom: 2px solid #e2e8f0; margin-bottom: 1.5rem; }
+h1 { margin-bottom: 0.25rem; }
+.meta, .time { color: #64748b; font-size: 0.85em; }
+.documents li.cited::after { content: " (cited)"; color: #64748b; }
+.message { margin: 1.25rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; page-break-inside: avoid; break-inside: avoid; }
+.message.user { background: #eff6ff; border-left: 4px solid #3b82f6; }
+.message.assistant { background: #f8fafc; border-left: 4px solid #94a3b8; }
+.role { font-weight: 600; margin-right: 0.5rem; }
+.stopped { color: #64748b; font-style: italic; }
+pre { background: #0f172a; color: #e2e8f0; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; font-size: 0.85em; white-space: pre-wrap; }
+code { font-family: ui-monospace, Menlo, Consolas, monospace; }
+:not(pre) > code { background: #e2e8f0; padding: 0 0.25rem; border-radius: 0.25rem; font-size: 0.9em; }
+.tok-comment { color: #94a3b8; font-style: italic; } .tok-string { color: #86efac; } .tok-number { color: #fcd34d; }
+.tok-keyword { color: #d8b4fe; } .tok-literal { color: #7dd3fc; }
+table { border-collapse: collapse; margin: 0.5rem 0; font-size: 0.9em; }
+th, td { border: 1px solid #cbd5e1; padding: 0.25rem 0.6rem; text-align: left; }
+th { background: #f1f5f9; }
+blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 3px solid #cbd5e1; color: #475569; }
+.math { font-family: "Times New Roman", serif; font-style: italic; }
+.math.block { text-align: center; margin: 0.5rem 0; }
+.frac { display: inline-flex; flex-direction: column; vertical-align: middle; text-align: center; font-size: 0.85em; }
+.frac > span + span, .sqrt { border-top: 1px solid currentColor; }
+sup.ref a { text-decoration: none; }
+.footnotes { border-top: 2px solid #e2e8f0; margin-top: 2rem; font-size: 0.9em; }
+.footnotes blockquote { font-style: italic; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+/**
+ * The conversation as a standalone HTML page, styled for screen and print
+ */
+export const exportConversationHtml = (input: ConversationExportInput): string => {
+  const { exportedAt, entries, footnotes, documents } = prepareExport(input);
+
+  const messages = entries.map(({ message, text }) => {
+    // Questions are shown as typed; answers are markdown
+    const body = message.role === 'assistant'
+      ? blocksHtml(parseMarkdown(text))
+      : `<p>${textHtml(text).replace(/\n/g, '<br>')}</p>`;
+    return `<section class="message ${message.role}">
+<div><span class="role">${roleLabel(message)}</span><span class="time">${escapeHtml(formatTime(message.timestamp))}</span></div>
+${body}${message.stopped ? '\n<p class="stopped">Stopped before the answer was complete</p>' : ''}
+</section>`;
+  }).join('\n');
+
+  const notes = footnotes.length === 0 ? '' : `<section class="footnotes">
+<h2>Sources</h2>
+<ol>
+${footnotes.map(note => `<li id="fn-${note.number}">${escapeHtml(note.label)}${note.quote ? `<blockquote>“${escapeHtml(note.quote)}”</blockquote>` : ''}</li>`).join('\n')}
+</ol>
+</section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(input.title)}</h1>
+<p class="meta">Workspace: ${escapeHtml(input.workspaceName)} · Exported ${escapeHtml(formatTime(exportedAt))}</p>
+</header>
+<h2>Documents</h2>
+<ul class="documents">
+${documents.map(doc => `<li${doc.cited ? ' class="cited"' : ''}>${escapeHtml(doc.label)} <span class="time">· added ${escapeHtml(formatTime(doc.added))}</span></li>`).join('\n')}
+</ul>
+<h2>Conversation</h2>
+${messages}
+${notes}
+</body>
+</html>
+`;
+};
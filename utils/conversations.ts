@@ -0,0 +1,97 @@
+import { Message } from "../types";
+import { ChatTurn } from "../services/llmProvider";
+import { generateId } from "./fileProcessor";
+
+/**
+ * Conversations of a workspace: separate threads over the same documents.
+ * Each keeps the rendered messages and the model-side history, so a thread
+ * continues where it left off when it is reopened.
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  customTitle?: boolean; // renamed by the user; no longer follows the first question
+  messages: Message[];
+  history: ChatTurn[]; // turns as the model saw them, restored into the chat when reopened
+  createdAt: number;
+  updatedAt: number; // last activity
+  pinned?: boolean;
+}
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  snippet?: string; // excerpt around the first match in a message
+}
+
+export const NEW_CONVERSATION_TITLE = 'New conversation';
+
+const MAX_TITLE_LENGTH = 60;
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Title from the first question, cut at a word boundary
+ */
+export const titleFor = (messages: Message[]): string => {
+  const first = messages.find(m => m.role === 'user');
+  if (!first) return NEW_CONVERSATION_TITLE;
+  const text = first.text.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const space = cut.lastIndexOf(' ');
+  return `${space > MAX_TITLE_LENGTH / 2 ? cut.slice(0, space) : cut}…`;
+};
+
+export const createConversation = (messages: Message[] = [], history: ChatTurn[] = []): Conversation => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    title: titleFor(messages),
+    messages,
+    history,
+    createdAt: now,
+    updatedAt: messages[messages.length - 1]?.timestamp ?? now
+  };
+};
+
+/**
+ * Replace a conversation's messages, keeping its title and last-activity
+ * time in step
+ */
+export const withMessages = (conversation: Conversation, messages: Message[]): Conversation => ({
+  ...conversation,
+  messages,
+  title: conversation.customTitle ? conversation.title : titleFor(messages),
+  updatedAt: messages[messages.length - 1]?.timestamp ?? conversation.updatedAt
+});
+
+// Nothing asked yet; the welcome message does not count
+export const isBlank = (conversation: Conversation): boolean =>
+  !conversation.messages.some(m => m.role === 'user');
+
+/**
+ * Pinned conversations first, then by last activity
+ */
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * Conversations whose title or messages contain every word of the query,
+ * with an excerpt of the first message that matches
+ */
+export const searchConversations = (conversations: Conversation[], query: string): ConversationMatch[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return conversations.map(conversation => ({ conversation }));
+
+  return conversations.flatMap(conversation => {
+    const texts = [conversation.title, ...conversation.messages.map(m => m.text)].map(t => t.toLowerCase());
+    if (!terms.every(term => texts.some(t => t.includes(term)))) return [];
+
+    const message = conversation.messages.find(m => m.text.toLowerCase().includes(terms[0]));
+    if (!message) return [{ conversation }];
+    const at = message.text.toLowerCase().indexOf(terms[0]);
+    const start = Math.max(0, at - SNIPPET_CONTEXT);
+    const end = Math.min(message.text.length, at + terms[0].length + SNIPPET_CONTEXT);
+    const snippet = `${start > 0 ? '…' : ''}${message.text.slice(start, end).replace(/\s+/g, ' ')}${end < message.text.length ? '…' : ''}`;
+    return [{ conversation, snippet }];
+  });
+};
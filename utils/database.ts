@@ -0,0 +1,85 @@
+/**
+ * Shared IndexedDB schema. Every service opens the same database, so they
+ * must agree on the version and each upgrade must create every store —
+ * whichever service opens the database first performs the upgrade.
+ */
+
+export const DB_NAME = 'gemini-rag-navigator';
+export const DB_VERSION = 7;
+
+export const STORES = {
+  users: 'users',
+  sessions: 'sessions',
+  vectors: 'vectors',
+  tables: 'tables',
+  documents: 'documents'
+} as const;
+
+export const upgradeSchema = (db: IDBDatabase): void => {
+  if (!db.objectStoreNames.contains(STORES.users)) {
+    const users = db.createObjectStore(STORES.users, { keyPath: 'id' });
+    users.createIndex('username', 'username', { unique: true });
+    users.createIndex('email', 'email', { unique: true });
+  }
+
+  if (!db.objectStoreNames.contains(STORES.sessions)) {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('timestamp', 'timestamp', { unique: false });
+    sessions.createIndex('userId', 'userId', { unique: false });
+  }
+
+  if (!db.objectStoreNames.contains(STORES.vectors)) {
+    const vectors = db.createObjectStore(STORES.vectors, { keyPath: 'id' });
+    vectors.createIndex('docId', 'docId', { unique: false });
+  }
+
+  if (!db.objectStoreNames.contains(STORES.tables)) {
+    db.createObjectStore(STORES.tables, { keyPath: 'docId' });
+  }
+
+  if (!db.objectStoreNames.contains(STORES.documents)) {
+    db.createObjectStore(STORES.documents, { keyPath: 'docId' });
+  }
+};
+
+let connection: Promise<IDBDatabase> | null = null;
+
+/**
+ * The shared connection, opened on first use. It closes itself when another
+ * tab opens a newer version, so an old tab never blocks the upgrade; the
+ * next call then reopens.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (connection) return connection;
+
+  connection = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error('[Database] IndexedDB error:', request.error);
+      connection = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn('[Database] Upgrade waiting for another tab to close the database');
+    };
+
+    request.onupgradeneeded = () => {
+      upgradeSchema(request.result);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      db.onclose = () => {
+        connection = null;
+      };
+      resolve(db);
+    };
+  });
+  return connection;
+};
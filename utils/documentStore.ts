@@ -0,0 +1,154 @@
+import { DocumentFile } from "../types";
+import { openDatabase, STORES } from "./database";
+
+// Extracted text and structure; stored per document rather than in the workspace record
+const BODY_FIELDS = ['content', 'chunks', 'pageOffsets', 'sections', 'ocrPages', 'messages', 'table'] as const;
+
+export type DocumentBody = Pick<DocumentFile, typeof BODY_FIELDS[number]>;
+
+/**
+ * What a workspace record keeps of a document: everything but the body
+ */
+export type StoredDocument = Omit<DocumentFile, typeof BODY_FIELDS[number]>;
+
+interface DocumentRecord {
+  docId: string;
+  body: Blob; // JSON of DocumentBody
+  original?: Blob; // the uploaded file, kept so it can be extracted again
+}
+
+export interface StoredSize {
+  body: number; // bytes
+  original: number;
+}
+
+export const stripBody = (doc: DocumentFile | StoredDocument): StoredDocument => {
+  const stored: Record<string, unknown> = { ...doc };
+  BODY_FIELDS.forEach(field => delete stored[field]);
+  return stored as StoredDocument;
+};
+
+const pickBody = (doc: DocumentFile): DocumentBody => {
+  const { content, chunks, pageOffsets, sections, ocrPages, messages, table } = doc;
+  return { content, chunks, pageOffsets, sections, ocrPages, messages, table };
+};
+
+/**
+ * Document bodies and original uploads as blobs in IndexedDB. Workspaces
+ * only reference documents, so saving one never rewrites their text, and
+ * large libraries stay within the browser's IndexedDB quota instead of
+ * localStorage's few megabytes.
+ */
+class DocumentStore {
+
+  private async write(run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.documents], 'readwrite');
+      run(transaction.objectStore(STORES.documents));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      // Running out of quota aborts the transaction without an error event
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async getRecord(docId: string): Promise<DocumentRecord | undefined> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.documents], 'readonly');
+      const request = transaction.objectStore(STORES.documents).get(docId);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as DocumentRecord | undefined);
+    });
+  }
+
+  /**
+   * Store a document's body and, for new uploads, the original file
+   */
+  async save(doc: DocumentFile, original?: Blob): Promise<void> {
+    const body = new Blob([JSON.stringify(pickBody(doc))], { type: 'application/json' });
+    await this.write(store => store.put({ docId: doc.id, body, original } as DocumentRecord));
+    console.log(`[DocumentStore] Saved ${doc.name} (${body.size} bytes${original ? ` + ${original.size} original` : ''})`);
+  }
+
+  async load(docId: string): Promise<DocumentBody | null> {
+    const record = await this.getRecord(docId);
+    return record ? JSON.parse(await record.body.text()) as DocumentBody : null;
+  }
+
+  async loadOriginal(docId: string): Promise<Blob | null> {
+    return (await this.getRecord(docId))?.original || null;
+  }
+
+  /**
+   * Full documents for a workspace's references. Records written before
+   * bodies were stored separately still carry their content; those bodies
+   * are moved into the store here. Documents whose body is gone are
+   * returned as missing.
+   */
+  async hydrate(docs: (StoredDocument | DocumentFile)[]): Promise<{ documents: DocumentFile[]; missing: StoredDocument[] }> {
+    const documents: DocumentFile[] = [];
+    const missing: StoredDocument[] = [];
+
+    for (const doc of docs) {
+      if ('content' in doc && typeof doc.content === 'string') {
+        await this.save(doc);
+        documents.push(doc);
+        continue;
+      }
+      const body = await this.load(doc.id);
+      if (body) {
+        documents.push({ ...doc, ...body });
+      } else {
+        console.warn(`[DocumentStore] No stored body for ${doc.name} (${doc.id})`);
+        missing.push(doc);
+      }
+    }
+
+    return { documents, missing };
+  }
+
+  /**
+   * Store a copy of a document (new id, re-keyed chunks) with the
+   * original file of the document it was copied from
+   */
+  async copyDocument(fromDocId: string, copy: DocumentFile): Promise<void> {
+    await this.save(copy, (await this.loadOriginal(fromDocId)) || undefined);
+  }
+
+  /**
+   * Drop the original file to free space; the extracted text stays
+   */
+  async removeOriginal(docId: string): Promise<void> {
+    const record = await this.getRecord(docId);
+    if (!record?.original) return;
+    await this.write(store => store.put({ docId, body: record.body } as DocumentRecord));
+  }
+
+  async removeDocuments(docIds: string[]): Promise<void> {
+    if (docIds.length === 0) return;
+    await this.write(store => docIds.forEach(docId => store.delete(docId)));
+  }
+
+  /**
+   * Stored bytes per document, for finding what to clean up
+   */
+  async getSizes(): Promise<Map<string, StoredSize>> {
+    const db = await openDatabase();
+
+    const records = await new Promise<DocumentRecord[]>((resolve, reject) => {
+      const transaction = db.transaction([STORES.documents], 'readonly');
+      const request = transaction.objectStore(STORES.documents).getAll();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as DocumentRecord[]);
+    });
+
+    return new Map(records.map(r => [r.docId, { body: r.body.size, original: r.original?.size || 0 }]));
+  }
+}
+
+// Export singleton instance
+export const documentStore = new DocumentStore();
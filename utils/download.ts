@@ -0,0 +1,39 @@
+/**
+ * Save a generated file through the browser's download prompt
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+/**
+ * A name safe to use as a file name on every platform, e.g. "Client A / Q3" -> "Client-A-Q3"
+ */
+export const safeFileName = (name: string): string =>
+  name.trim().replace(/[^\p{L}\p{N}._-]+/gu, '-').replace(/^-+|-+$/g, '') || 'untitled';
+
+/**
+ * Open the print dialog for a standalone HTML page, where it can be saved as PDF
+ */
+export const printHtml = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    // The dialog blocks in most browsers; the timeout covers those where it does not
+    view.addEventListener('afterprint', () => frame.remove());
+    setTimeout(() => frame.remove(), 60000);
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
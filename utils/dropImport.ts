@@ -0,0 +1,135 @@
+import { UploadItem } from "./ingestion";
+import { readZip } from "./zipReader";
+import { getExtension, isSupportedFile, mimeTypeFor } from "./fileProcessor";
+
+/**
+ * Turn dropped folders and .zip archives into a flat list of supported
+ * files, each tagged with its path relative to what the user dropped.
+ */
+
+export interface CollectedUploads {
+  items: UploadItem[];
+  skipped: number; // unsupported, hidden or oversized files that were left out
+}
+
+// Guards against zip bombs and accidental drops of huge trees
+const MAX_FILES = 1000;
+// Uncompressed size limits for archive contents, checked before inflating
+const MAX_ENTRY_SIZE = 100 * 1024 * 1024;
+const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024;
+
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, items: UploadItem[]): Promise<void> => {
+  if (items.length >= MAX_FILES) return;
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // fullPath starts with "/" relative to the drop root
+    items.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, items);
+    }
+  }
+};
+
+/**
+ * Extract the supported files of an archive. Paths are prefixed with the
+ * archive's own path minus ".zip", so "docs.zip" yields "docs/...".
+ * Nested archives are not expanded.
+ */
+const expandArchive = async (archive: UploadItem): Promise<CollectedUploads> => {
+  const prefix = (archive.path || archive.file.name).replace(/\.zip$/i, '');
+  const entries = await readZip(archive.file);
+  const items: UploadItem[] = [];
+  let skipped = 0;
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    if (entry.isDirectory) continue;
+    const name = entry.path.split('/').pop() || entry.path;
+    const tooLarge = entry.size > MAX_ENTRY_SIZE || totalSize + entry.size > MAX_ARCHIVE_SIZE;
+    if (isHidden(entry.path) || !isSupportedFile(name) || items.length >= MAX_FILES || tooLarge) {
+      skipped++;
+      continue;
+    }
+    totalSize += entry.size;
+    const file = new File([await entry.read()], name, { type: mimeTypeFor(name) });
+    items.push({ file, path: `${prefix}/${entry.path}` });
+  }
+  return { items, skipped };
+};
+
+/**
+ * Replace .zip archives with their contents and drop unsupported files
+ */
+export const expandUploads = async (uploads: UploadItem[]): Promise<CollectedUploads> => {
+  const items: UploadItem[] = [];
+  let skipped = 0;
+
+  for (const upload of uploads) {
+    const path = upload.path || upload.file.name;
+    if (isHidden(path)) {
+      skipped++;
+    } else if (getExtension(upload.file.name) === '.zip') {
+      const expanded = await expandArchive(upload);
+      items.push(...expanded.items);
+      skipped += expanded.skipped;
+    } else if (isSupportedFile(upload.file.name)) {
+      items.push(upload);
+    } else {
+      skipped++;
+    }
+  }
+
+  if (items.length > MAX_FILES) {
+    skipped += items.length - MAX_FILES;
+    items.length = MAX_FILES;
+  }
+  return { items, skipped };
+};
+
+/**
+ * Collect everything in a drop: plain files, whole folders and archives
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<CollectedUploads> => {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the drop handler yields
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  const looseFiles = Array.from(dataTransfer.files);
+
+  const uploads: UploadItem[] = [];
+  if (entries.every(entry => entry !== null)) {
+    for (const entry of entries as FileSystemEntry[]) {
+      if (entry.isDirectory) {
+        await walkEntry(entry, uploads);
+      } else {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        uploads.push({ file });
+      }
+    }
+  } else {
+    // Browsers without the entries API still give us the top-level files
+    uploads.push(...looseFiles.map(file => ({ file })));
+  }
+  return expandUploads(uploads);
+};
+
+/**
+ * Upload items from an <input type="file">, keeping folder paths when the
+ * input was opened in directory mode
+ */
+export const fromFileList = (files: FileList): UploadItem[] =>
+  Array.from(files).map(file => ({ file, path: file.webkitRelativePath || undefined }));
@@ -1,11 +1,65 @@
 
-import { DocumentFile } from "../types";
+import { DocumentFile, OcrPage } from "../types";
 import * as pdfjsLib from "pdfjs-dist/build/pdf";
+import type { PDFPageProxy } from "pdfjs-dist";
 import { GlobalWorkerOptions } from "pdfjs-dist/build/pdf.worker.entry";
-// Set PDF.js worker source for browser usage
+// Set PDF.js worker source for browser usage (globalThis: this module also runs in the ingestion worker)
 pdfjsLib.GlobalWorkerOptions.workerSrc =
-  window.location.origin + "/node_modules/pdfjs-dist/build/pdf.worker.min.js";
-import Tesseract from "tesseract.js";
+  globalThis.location.origin + "/node_modules/pdfjs-dist/build/pdf.worker.min.js";
+import { recognizeText, resolveOcrLanguage, OcrLanguage, OcrResult } from "./ocr";
+import { detectOfficeFormat, extractOfficeText } from "./officeExtractor";
+import { extractHtml, extractMarkdown, extractEpub, StructuredText } from "./markupExtractor";
+import { layoutPdfPages, PdfPageItems, PdfTextItem, PDFText } from "./pdfLayout";
+import { CODE_EXTENSIONS } from "./codeChunker";
+import { extractEml, extractMbox, extractChatExport, MessageText } from "./messageExtractor";
+import { parseCsv, parseJsonTable, parseYamlTable, ParsedTable } from "./tableParser";
+
+// Extensions the upload pipeline can extract text from
+export const SUPPORTED_EXTENSIONS = [
+  '.txt', '.md', '.markdown', '.json', ...CODE_EXTENSIONS,
+  '.html', '.htm', '.xhtml', '.epub',
+  '.eml', '.mbox',
+  '.csv', '.tsv', '.yaml', '.yml',
+  '.pdf', '.docx', '.pptx', '.xlsx',
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'
+];
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xhtml': 'application/xhtml+xml',
+  '.epub': 'application/epub+zip',
+  '.eml': 'message/rfc822',
+  '.mbox': 'application/mbox',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.txt': 'text/plain'
+};
+
+export const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+export const isSupportedFile = (name: string): boolean => SUPPORTED_EXTENSIONS.includes(getExtension(name));
+
+/**
+ * MIME type for files we construct ourselves (e.g. from archive entries),
+ * which have no type from the browser
+ */
+export const mimeTypeFor = (name: string): string => MIME_TYPES[getExtension(name)] || '';
 
 export const readFileAsText = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -16,25 +70,116 @@ export const readFileAsText = (file: File): Promise<string> => {
   });
 };
 
-export const readPDFAsText = async (file: File): Promise<string> => {
+export type { PDFText } from "./pdfLayout";
+
+// Pages with fewer extractable characters than this are treated as scanned
+const MIN_TEXT_LAYER_CHARS = 16;
+// Render scale for OCR; pdf.js units are 72 dpi, so 2x is roughly 150 dpi
+const OCR_RENDER_SCALE = 2;
+
+// Inside a worker there is no document, so pdf.js must draw on OffscreenCanvas
+const hasDOM = typeof document !== "undefined";
+
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+const renderPageToCanvas = async (page: PDFPageProxy): Promise<HTMLCanvasElement | OffscreenCanvas> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+  let canvas: HTMLCanvasElement | OffscreenCanvas;
+  if (hasDOM) {
+    canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+  } else {
+    canvas = new OffscreenCanvas(width, height);
+  }
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas rendering is not available");
+  // pdf.js draws on an OffscreenCanvas context just the same; its types only name the DOM one
+  await page.render({ canvasContext: context as CanvasRenderingContext2D, viewport }).promise;
+  return canvas;
+};
+
+/**
+ * Extract PDF text with its layout: reading order across columns, headings,
+ * simple tables and page boundaries (see pdfLayout). Pages without a text
+ * layer are rendered and OCRed.
+ */
+export const readPDF = async (
+  file: File,
+  ocrLanguage: OcrLanguage = "auto",
+  onOcrPage?: (current: number, total: number) => void
+): Promise<PDFText> => {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  let text = "";
+  const pdf = await pdfjsLib.getDocument({
+    data: arrayBuffer,
+    ...(hasDOM ? {} : { canvasFactory: new OffscreenCanvasFactory(), disableFontFace: true })
+  }).promise;
+  const pages: PdfPageItems[] = [];
+  const scanned: number[] = [];
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
     const content = await page.getTextContent();
-    text += content.items.map((item: any) => item.str).join(" ") + "\n";
+    const items: PdfTextItem[] = content.items
+      .filter((item: any) => typeof item.str === "string" && item.str.length > 0)
+      .map((item: any) => ({
+        str: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 1
+      }));
+    pages.push({ width: viewport.width, height: viewport.height, items });
+    if (items.reduce((n, item) => n + item.str.trim().length, 0) < MIN_TEXT_LAYER_CHARS) {
+      scanned.push(i);
+    }
   }
-  return text;
+
+  const ocrPages: OcrPage[] = [];
+  if (scanned.length > 0) {
+    // Mixed documents: the text layer tells us the language of the scans
+    const sample = pages.flatMap(p => p.items.map(item => item.str)).join(" ");
+    let language = await resolveOcrLanguage(ocrLanguage, sample);
+    for (const [index, pageNumber] of scanned.entries()) {
+      onOcrPage?.(index + 1, scanned.length);
+      const canvas = await renderPageToCanvas(await pdf.getPage(pageNumber));
+      const result = await recognizeText(canvas, language);
+      pages[pageNumber - 1].ocrText = result.text;
+      ocrPages.push({ page: pageNumber, confidence: result.confidence, language: result.language });
+      // Once detected, later pages skip the slower multi-language pass
+      language = result.language;
+    }
+  }
+
+  const result = layoutPdfPages(pages);
+  return ocrPages.length > 0 ? { ...result, ocrPages } : result;
 };
 
-export const readImageAsText = async (file: File): Promise<string> => {
+export const readPDFAsText = async (file: File): Promise<string> => (await readPDF(file)).text;
+
+export const readImage = (file: File, language: OcrLanguage = "auto"): Promise<OcrResult> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = async () => {
       try {
-        const result = await Tesseract.recognize(reader.result as string, "eng");
-        resolve(result.data.text);
+        resolve(await recognizeText(reader.result as string, language));
       } catch (err) {
         reject(err);
       }
@@ -44,10 +189,77 @@ export const readImageAsText = async (file: File): Promise<string> => {
   });
 };
 
+export const readImageAsText = async (file: File): Promise<string> => (await readImage(file)).text;
+
+export const isOfficeFile = (file: File): boolean => detectOfficeFormat(file.name, file.type) !== null;
+
+export const readOfficeAsText = async (file: File): Promise<string> => {
+  const format = detectOfficeFormat(file.name, file.type);
+  if (!format) throw new Error(`Unsupported Office file: ${file.name}`);
+  const text = await extractOfficeText(file, format);
+  if (!text.trim()) throw new Error('No text found in document');
+  return text;
+};
+
+const STRUCTURED_EXTENSIONS = ['.html', '.htm', '.xhtml', '.md', '.markdown', '.epub'];
+
+export const isStructuredFile = (file: File): boolean => STRUCTURED_EXTENSIONS.includes(getExtension(file.name));
+
+/**
+ * Read HTML, Markdown or EPUB into clean text plus its section outline
+ */
+export const readStructured = async (file: File): Promise<StructuredText> => {
+  const extension = getExtension(file.name);
+  const result = extension === '.epub'
+    ? await extractEpub(file)
+    : extension === '.md' || extension === '.markdown'
+      ? extractMarkdown(await readFileAsText(file))
+      : extractHtml(await readFileAsText(file));
+  if (!result.text.trim()) throw new Error('No text found in document');
+  return result;
+};
+
+// JSON is sniffed for Slack and Teams exports
+const MESSAGE_EXTENSIONS = ['.eml', '.mbox', '.json'];
+
+export const isMessageFile = (file: File): boolean => MESSAGE_EXTENSIONS.includes(getExtension(file.name));
+
+/**
+ * Read a mailbox or chat export into rendered messages. Returns null for
+ * JSON that is not a chat export, which is then read as plain text.
+ */
+export const readMessages = async (file: File, path?: string): Promise<MessageText | null> => {
+  const text = await readFileAsText(file);
+  const extension = getExtension(file.name);
+  if (extension === '.json') return extractChatExport(text, path || file.name);
+
+  const result = extension === '.eml' ? extractEml(text) : extractMbox(text);
+  if (result.messages.length === 0) throw new Error('No messages found in mailbox');
+  return result;
+};
+
+const TABLE_EXTENSIONS = ['.csv', '.tsv', '.json', '.yaml', '.yml'];
+
+export const isTableFile = (file: File): boolean => TABLE_EXTENSIONS.includes(getExtension(file.name));
+
+/**
+ * Parse CSV, JSON or YAML into a typed table. Returns null when the file
+ * does not parse (or is a single scalar), so it is read as plain text.
+ */
+export const readTable = async (file: File): Promise<ParsedTable | null> => {
+  const text = await readFileAsText(file);
+  switch (getExtension(file.name)) {
+    case '.csv': return parseCsv(text, file.name);
+    case '.tsv': return parseCsv(text, file.name, '\t');
+    case '.json': return parseJsonTable(text, file.name);
+    default: return parseYamlTable(text, file.name);
+  }
+};
+
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
@@ -0,0 +1,114 @@
+import { ClaimCheck, DocumentChunk, GroundingReport } from "../types";
+import { tokenize } from "./tokenizer";
+
+export interface Claim {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Model-based entailment: given claims and source passages, return whether
+ * each claim is supported. Used to settle claims lexical overlap cannot.
+ */
+export type EntailmentCheck = (claims: string[], passages: string[]) => Promise<boolean[]>;
+
+// Share of a claim's terms that must appear in one chunk to count as supported
+const SUPPORT_THRESHOLD = 0.6;
+// Below this the claim is unsupported even if the model disagrees
+const MIN_OVERLAP_FOR_MODEL = 0.2;
+// Claims shorter than this carry no checkable content ("Sure.", "In summary:")
+const MIN_CLAIM_TERMS = 3;
+
+const CITATION_MARKER = /\[\d+(?:\s*,\s*\d+)*\]/g;
+const REFUSAL = /\b(cannot|can't|could not|unable to) find\b|\bnot (mentioned|found|provided|available) in\b/i;
+
+/**
+ * Split an answer into sentence-level claims, keeping offsets into the
+ * original text. Headings, code fences and short fragments are skipped.
+ */
+export const splitClaims = (text: string): Claim[] => {
+  const claims: Claim[] = [];
+  let inCode = false;
+  let lineStart = 0;
+
+  text.split('\n').forEach(line => {
+    const offset = lineStart;
+    lineStart += line.length + 1;
+
+    if (line.trim().startsWith('```')) {
+      inCode = !inCode;
+      return;
+    }
+    if (inCode || /^\s*#/.test(line)) return;
+
+    const sentencePattern = /[^.!?]+(?:[.!?]+(?=\s|$)|$)/g;
+    for (const match of line.matchAll(sentencePattern)) {
+      const raw = match[0];
+      const leading = raw.length - raw.trimStart().length;
+      const sentence = raw.trim().replace(/^([-*+]|\d+\.)\s+/, '');
+      if (!sentence) continue;
+      const start = offset + match.index! + leading + (raw.trim().length - sentence.length);
+      claims.push({ text: sentence, start, end: start + sentence.length });
+    }
+  });
+
+  return claims.filter(c =>
+    tokenize(c.text.replace(CITATION_MARKER, '')).length >= MIN_CLAIM_TERMS && !REFUSAL.test(c.text)
+  );
+};
+
+/**
+ * Largest share of the claim's terms found together in a single chunk
+ */
+const lexicalOverlap = (claim: string, chunkTerms: Set<string>[]): number => {
+  const terms = Array.from(new Set(tokenize(claim.replace(CITATION_MARKER, ''))));
+  if (terms.length === 0) return 1;
+  return chunkTerms.reduce((best, chunk) => {
+    const found = terms.filter(t => chunk.has(t)).length;
+    return Math.max(best, found / terms.length);
+  }, 0);
+};
+
+/**
+ * Check every claim in an answer against the chunks it was generated from.
+ * Lexical overlap decides clear cases; when an entailment check is supplied
+ * it rules on the claims that overlap did not confirm.
+ */
+export const verifyGrounding = async (
+  answer: string,
+  chunks: DocumentChunk[],
+  entail?: EntailmentCheck
+): Promise<GroundingReport> => {
+  const claims = splitClaims(answer);
+  const chunkTerms = chunks.map(c => new Set(tokenize(c.text)));
+
+  const checks: ClaimCheck[] = claims.map(claim => {
+    const overlap = lexicalOverlap(claim.text, chunkTerms);
+    return { start: claim.start, end: claim.end, overlap, supported: overlap >= SUPPORT_THRESHOLD };
+  });
+
+  let modelChecked = false;
+  const uncertain = checks
+    .map((check, i) => ({ check, i }))
+    .filter(({ check }) => !check.supported && check.overlap >= MIN_OVERLAP_FOR_MODEL);
+
+  if (entail && uncertain.length > 0 && chunks.length > 0) {
+    try {
+      const verdicts = await entail(uncertain.map(({ i }) => claims[i].text), chunks.map(c => c.text));
+      uncertain.forEach(({ check }, j) => {
+        if (verdicts[j]) check.supported = true;
+      });
+      modelChecked = true;
+    } catch (error) {
+      console.warn('[GroundingVerifier] Entailment check failed, using lexical overlap only:', error);
+    }
+  }
+
+  const supported = checks.filter(c => c.supported).length;
+  return {
+    score: checks.length > 0 ? supported / checks.length : 1,
+    claims: checks,
+    modelChecked
+  };
+};
@@ -51,6 +51,13 @@ export const translations = {
 
 export type Lang = keyof typeof translations;
 
+// Tesseract traineddata codes for each supported language
+export const OCR_LANGUAGES: Record<Lang, string> = {
+  en: 'eng',
+  hi: 'hin',
+  es: 'spa'
+};
+
 // Utility for language detection (very basic, for demo)
 export async function detectLanguage(text: string): Promise<string> {
   // Use a simple heuristic or integrate a library/service for real detection
@@ -65,5 +72,3 @@ export async function translateToEnglish(text: string, fromLang: string): Promis
   if (fromLang === 'en') return text;
   return `[Translated to English]: ${text}`;
 }
-
-export type Lang = keyof typeof translations;
@@ -0,0 +1,131 @@
+import { DocumentFile, DocumentSection, MessageRecord, OcrPage, TableCell, TableSchema } from "../types";
+import {
+  readFileAsText,
+  readPDF,
+  readImage,
+  isOfficeFile,
+  readOfficeAsText,
+  isStructuredFile,
+  readStructured,
+  isMessageFile,
+  readMessages,
+  isTableFile,
+  readTable,
+  generateId
+} from "./fileProcessor";
+import { chunkDocument } from "./chunker";
+import { detectCodeLanguage } from "./codeChunker";
+import { detectLanguage, translateToEnglish } from "./i18n";
+import { OcrLanguage } from "./ocr";
+
+/**
+ * File-to-document pipeline: extraction, OCR, translation and chunking.
+ * Runs inside the ingestion worker, so nothing here may touch the DOM,
+ * localStorage or app singletons.
+ */
+
+export type IngestionStage =
+  | 'queued'
+  | 'extracting'
+  | 'ocr'
+  | 'translating'
+  | 'indexing'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped'; // identical content is already in the library
+
+export interface IngestionProgress {
+  stage: IngestionStage;
+  current?: number; // e.g. OCR page 3 ...
+  total?: number; // ... of 12
+  detail?: string; // detected language while translating
+}
+
+export interface IngestionOptions {
+  ocrLanguage: OcrLanguage;
+}
+
+export interface UploadItem {
+  file: File;
+  path?: string; // relative path inside a dropped folder or archive
+}
+
+// Messages between the ingestion queue and its worker
+export type WorkerRequest = { type: 'ingest'; jobId: string; item: UploadItem; options: IngestionOptions };
+
+export interface IngestedFile {
+  document: DocumentFile;
+  rows?: TableCell[][]; // parsed table rows, stored apart from the document
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; jobId: string; progress: IngestionProgress }
+  | { type: 'done'; jobId: string; document: DocumentFile; rows?: TableCell[][] }
+  | { type: 'error'; jobId: string; message: string };
+
+export const ingestFile = async (
+  { file, path }: UploadItem,
+  options: IngestionOptions,
+  onProgress: (progress: IngestionProgress) => void
+): Promise<IngestedFile> => {
+  onProgress({ stage: 'extracting' });
+
+  let text = "";
+  let pageOffsets: number[] | undefined;
+  let ocrPages: OcrPage[] | undefined;
+  let sections: DocumentSection[] | undefined;
+  let messages: MessageRecord[] | undefined;
+  let table: TableSchema | undefined;
+  let rows: TableCell[][] | undefined;
+  const messageExport = isMessageFile(file) ? await readMessages(file, path) : null;
+  const parsedTable = !messageExport && isTableFile(file) ? await readTable(file) : null;
+  if (messageExport) {
+    ({ text, messages } = messageExport);
+  } else if (parsedTable) {
+    ({ text, schema: table, rows } = parsedTable);
+  } else if (file.type === "application/pdf") {
+    ({ text, pageOffsets, ocrPages } = await readPDF(file, options.ocrLanguage, (current, total) => {
+      onProgress({ stage: 'ocr', current, total });
+    }));
+  } else if (isOfficeFile(file)) {
+    text = await readOfficeAsText(file);
+  } else if (isStructuredFile(file)) {
+    ({ text, sections } = await readStructured(file));
+  } else if (file.type.startsWith("image/")) {
+    onProgress({ stage: 'ocr', current: 1, total: 1 });
+    const result = await readImage(file, options.ocrLanguage);
+    text = result.text;
+    ocrPages = [{ page: 1, confidence: result.confidence, language: result.language }];
+  } else {
+    text = await readFileAsText(file);
+  }
+
+  // Detect language and translate if needed. Source files and tables are never
+  // translated: identifiers would trip the detector and a rewrite breaks line and row offsets.
+  const language = detectCodeLanguage(file.name) || undefined;
+  const detectedLang = language || table ? 'en' : await detectLanguage(text);
+  let processedText = text;
+  if (detectedLang !== 'en') {
+    onProgress({ stage: 'translating', detail: detectedLang });
+    processedText = await translateToEnglish(text, detectedLang);
+  }
+
+  const doc: DocumentFile = {
+    id: generateId(),
+    name: file.name,
+    content: processedText,
+    size: file.size,
+    type: file.type,
+    uploadDate: Date.now(),
+    path,
+    // Translation rewrites the text, so page, section and message offsets no longer line up
+    pageOffsets: processedText === text ? pageOffsets : undefined,
+    sections: processedText === text && sections && sections.length > 0 ? sections : undefined,
+    messages: processedText === text ? messages : undefined,
+    ocrPages,
+    language,
+    table
+  };
+  return { document: { ...doc, chunks: chunkDocument(doc) }, rows };
+};
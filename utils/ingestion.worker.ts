@@ -0,0 +1,19 @@
+import { ingestFile, WorkerRequest, WorkerResponse } from "./ingestion";
+
+/**
+ * Ingestion worker - parses, OCRs and chunks uploaded files off the main
+ * thread. Jobs arrive one at a time from ingestionQueue; cancellation
+ * terminates the worker, so there is no cancel message.
+ */
+
+const post = (message: WorkerResponse) => (self as unknown as Worker).postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { jobId, item, options } = event.data;
+  try {
+    const { document, rows } = await ingestFile(item, options, progress => post({ type: 'progress', jobId, progress }));
+    post({ type: 'done', jobId, document, rows });
+  } catch (err) {
+    post({ type: 'error', jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,266 @@
+/**
+ * Ingestion Queue - Runs uploads one at a time through the ingestion worker
+ * and tracks per-file status for the sidebar.
+ * Embedding ("indexing") stays on the main thread: it shares the vector
+ * cache and the provider configured there, and is network- rather than
+ * CPU-bound.
+ */
+
+import { DocumentFile, TableCell } from '../types';
+import { IngestionOptions, IngestionProgress, IngestionStage, UploadItem, WorkerRequest, WorkerResponse } from './ingestion';
+import { vectorIndex } from './vectorIndex';
+import { tableStore } from './tableStore';
+import { documentStore } from './documentStore';
+import { isQuotaError, STORAGE_FULL_MESSAGE } from './storageQuota';
+import { generateId } from './fileProcessor';
+import { hashFile } from './versioning';
+
+export interface IngestionJob {
+  id: string;
+  file: File;
+  path?: string;
+  stage: IngestionStage;
+  progress?: IngestionProgress;
+  error?: string; // failure reason, a warning on a finished job, or why it was skipped
+  docId?: string;
+  contentHash?: string;
+}
+
+/**
+ * Returns why an upload with this content hash should be skipped (e.g. it
+ * duplicates a library document), or null to ingest it
+ */
+export type DuplicateCheck = (contentHash: string, file: File) => string | null;
+
+interface JobRequest {
+  options: IngestionOptions;
+  onDocument: (doc: DocumentFile) => void;
+  checkDuplicate?: DuplicateCheck;
+}
+
+type Listener = (jobs: IngestionJob[]) => void;
+
+const FINISHED: IngestionStage[] = ['done', 'failed', 'cancelled', 'skipped'];
+
+class IngestionQueueClass {
+  private jobs: IngestionJob[] = [];
+  private requests = new Map<string, JobRequest>();
+  private listeners = new Set<Listener>();
+  private worker: Worker | null = null;
+  private activeJobId: string | null = null;
+  // Content hash -> job ingesting it, until its document reaches the library.
+  // Covers the gap where `checkDuplicate` cannot see it yet.
+  private pendingHashes = new Map<string, string>();
+
+  /**
+   * Subscribe to job list changes; returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJobs(): IngestionJob[] {
+    return this.jobs;
+  }
+
+  isBusy(): boolean {
+    return this.jobs.some(j => !FINISHED.includes(j.stage));
+  }
+
+  /**
+   * Queue files for ingestion. `onDocument` receives each document as soon
+   * as it is parsed, before it is embedded. Each file is hashed first, and
+   * `checkDuplicate` may skip it before any extraction or OCR runs.
+   */
+  enqueue(
+    items: UploadItem[],
+    options: IngestionOptions,
+    onDocument: (doc: DocumentFile) => void,
+    checkDuplicate?: DuplicateCheck
+  ): void {
+    const jobs = items.map(({ file, path }) => ({ id: generateId(), file, path, stage: 'queued' as IngestionStage }));
+    jobs.forEach(job => this.requests.set(job.id, { options, onDocument, checkDuplicate }));
+    this.jobs = [...this.jobs, ...jobs];
+    this.notify();
+    this.processNext();
+  }
+
+  /**
+   * Re-queue a failed or cancelled job
+   */
+  retry(jobId: string): void {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || (job.stage !== 'failed' && job.stage !== 'cancelled')) return;
+    this.update(jobId, { stage: 'queued', progress: undefined, error: undefined });
+    this.processNext();
+  }
+
+  /**
+   * Cancel a queued or running job. A running job is stopped by
+   * terminating the worker; a fresh one is started for the next job.
+   */
+  cancel(jobId: string): void {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || FINISHED.includes(job.stage) || job.stage === 'indexing') return;
+
+    if (jobId === this.activeJobId) {
+      this.worker?.terminate();
+      this.worker = null;
+      this.activeJobId = null;
+    }
+    this.release(jobId);
+    this.update(jobId, { stage: 'cancelled', progress: undefined });
+    this.processNext();
+  }
+
+  /**
+   * Drop finished jobs (or a single one) from the list
+   */
+  dismiss(jobId?: string): void {
+    const removed = this.jobs.filter(j => FINISHED.includes(j.stage) && (!jobId || j.id === jobId));
+    removed.forEach(j => this.requests.delete(j.id));
+    this.jobs = this.jobs.filter(j => !removed.includes(j));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+
+  private update(jobId: string, changes: Partial<IngestionJob>): void {
+    this.jobs = this.jobs.map(j => (j.id === jobId ? { ...j, ...changes } : j));
+    this.notify();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data));
+      this.worker.addEventListener('error', event => {
+        console.error('[IngestionQueue] Worker error:', event.message);
+        if (this.activeJobId) this.fail(this.activeJobId, event.message || 'Ingestion worker crashed');
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private async processNext(): Promise<void> {
+    if (this.activeJobId) return;
+    const next = this.jobs.find(j => j.stage === 'queued');
+    const request = next && this.requests.get(next.id);
+    if (!next || !request) return;
+
+    this.activeJobId = next.id;
+    this.update(next.id, { stage: 'extracting' });
+
+    let contentHash: string;
+    try {
+      contentHash = next.contentHash || await hashFile(next.file);
+    } catch (err) {
+      this.fail(next.id, `Could not read file: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    // Cancelled while hashing
+    if (this.activeJobId !== next.id) return;
+    const pendingJob = this.jobs.find(j => j.id === this.pendingHashes.get(contentHash));
+    const skipReason = pendingJob
+      ? `identical to ${pendingJob.path || pendingJob.file.name}`
+      : request.checkDuplicate?.(contentHash, next.file);
+    if (skipReason) {
+      this.update(next.id, { stage: 'skipped', error: skipReason, contentHash });
+      this.activeJobId = null;
+      this.processNext();
+      return;
+    }
+    this.pendingHashes.set(contentHash, next.id);
+    this.update(next.id, { contentHash });
+
+    const message: WorkerRequest = {
+      type: 'ingest',
+      jobId: next.id,
+      item: { file: next.file, path: next.path },
+      options: request.options
+    };
+    this.getWorker().postMessage(message);
+  }
+
+  private fail(jobId: string, message: string): void {
+    console.error(`[IngestionQueue] Failed to ingest job ${jobId}:`, message);
+    this.release(jobId);
+    this.update(jobId, { stage: 'failed', progress: undefined, error: message });
+    if (this.activeJobId === jobId) this.activeJobId = null;
+    this.processNext();
+  }
+
+  private release(jobId: string): void {
+    this.pendingHashes.forEach((id, hash) => {
+      if (id === jobId) this.pendingHashes.delete(hash);
+    });
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    // Late messages from a job that was cancelled meanwhile
+    if (message.jobId !== this.activeJobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        this.update(message.jobId, { stage: message.progress.stage, progress: message.progress });
+        break;
+      case 'error':
+        this.fail(message.jobId, message.message);
+        break;
+      case 'done': {
+        this.activeJobId = null;
+        const contentHash = this.jobs.find(j => j.id === message.jobId)?.contentHash;
+        this.index(message.jobId, { ...message.document, contentHash }, message.rows);
+        this.processNext();
+        break;
+      }
+    }
+  }
+
+  private async index(jobId: string, doc: DocumentFile, rows?: TableCell[][]): Promise<void> {
+    if (rows) {
+      try {
+        await tableStore.save(doc.id, rows);
+      } catch (err) {
+        // Without stored rows the table is still searchable as text, just not queryable
+        console.warn('Failed to store table rows:', err);
+        doc = { ...doc, table: undefined };
+      }
+    }
+    // The body and original file must be stored, or the document would be lost on reload
+    try {
+      await documentStore.save(doc, this.jobs.find(j => j.id === jobId)?.file);
+    } catch (err) {
+      if (doc.table) await tableStore.removeDocument(doc.id).catch(() => undefined);
+      this.fail(jobId, isQuotaError(err) ? STORAGE_FULL_MESSAGE : `Could not store document: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    this.requests.get(jobId)?.onDocument(doc);
+    // From here on `checkDuplicate` sees it in the library
+    this.release(jobId);
+    this.update(jobId, { stage: 'indexing', progress: { stage: 'indexing' }, docId: doc.id });
+    try {
+      await vectorIndex.addDocuments([doc]);
+      this.update(jobId, { stage: 'done', progress: undefined });
+    } catch (err) {
+      // The document stays usable through keyword search
+      console.error('Failed to index uploaded document:', err);
+      this.update(jobId, {
+        stage: 'done',
+        progress: undefined,
+        error: `Keyword search only: ${err instanceof Error ? err.message : String(err)}`
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const ingestionQueue = new IngestionQueueClass();
@@ -0,0 +1,447 @@
+/**
+ * Markdown parser for chat answers: headings, paragraphs, lists, block
+ * quotes, fenced code, GFM tables, rules and $...$ / $$...$$ math, with
+ * emphasis, code spans and links inline. Produces a tree that is rendered
+ * as React elements, so raw HTML in an answer is only ever shown as text.
+ *
+ * Text nodes keep their offset in the source, so ranges of the answer
+ * (e.g. unsupported sentences) can still be highlighted after rendering.
+ * Unclosed code fences and math blocks are rendered as far as they go,
+ * which keeps a streaming answer from jumping between layouts.
+ */
+
+export type MdInline =
+  | { type: 'text'; text: string; start: number }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type MdBlock =
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'code'; lang: string; text: string; open: boolean } // open: closing fence not written yet
+  | { type: 'math'; tex: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'quote'; children: MdBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'rule' };
+
+// A source line without its newline, and the offset of its first character
+interface Line {
+  text: string;
+  start: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const MATH_FENCE = /^ {0,3}(\$\$|\\\[)/;
+const SAFE_HREF = /^(https?:|mailto:)/i;
+const BARE_URL = /^https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/;
+
+const isBlank = (line: Line) => !line.text.trim();
+
+const slice = (line: Line, from: number): Line => ({ text: line.text.slice(from), start: line.start + from });
+
+// Leading spaces, with tabs counted as 4
+const indentOf = (text: string): number => {
+  let width = 0;
+  for (const ch of text) {
+    if (ch === ' ') width++;
+    else if (ch === '\t') width += 4;
+    else break;
+  }
+  return width;
+};
+
+// Drop up to `width` columns of indentation
+const dedent = (line: Line, width: number): Line => {
+  let i = 0;
+  let removed = 0;
+  while (i < line.text.length && removed < width && (line.text[i] === ' ' || line.text[i] === '\t')) {
+    removed += line.text[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return slice(line, i);
+};
+
+const isTableRow = (line: Line) => line.text.includes('|');
+
+// Lines that end a paragraph without a blank line in between
+const startsBlock = (line: Line, next?: Line): boolean =>
+  FENCE.test(line.text) || HEADING.test(line.text) || RULE.test(line.text) || QUOTE.test(line.text) ||
+  LIST_ITEM.test(line.text) || MATH_FENCE.test(line.text) ||
+  (isTableRow(line) && !!next && TABLE_DELIMITER.test(next.text));
+
+/**
+ * Split a table row into cells on unescaped pipes outside code spans
+ */
+const splitRow = (line: Line): Line[] => {
+  const cells: Line[] = [];
+  let text = line.text;
+  let offset = line.start;
+  const lead = text.match(/^\s*\|?/)![0];
+  text = text.slice(lead.length);
+  offset += lead.length;
+  text = text.replace(/\|?\s*$/, '');
+
+  let cellStart = 0;
+  let inCode = false;
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === '`') inCode = !inCode;
+    if (i === text.length || (ch === '|' && !inCode)) {
+      const raw = text.slice(cellStart, i);
+      const lead = raw.length - raw.trimStart().length;
+      cells.push({ text: raw.trim().replace(/\\\|/g, '|'), start: offset + cellStart + lead });
+      cellStart = i + 1;
+    }
+  }
+  return cells;
+};
+
+const alignOf = (cell: string): TableAlign => {
+  const c = cell.trim();
+  if (c.startsWith(':') && c.endsWith(':')) return 'center';
+  if (c.endsWith(':')) return 'right';
+  if (c.startsWith(':')) return 'left';
+  return undefined;
+};
+
+/**
+ * Parse the lines of one list, starting at `from`. Items continue while
+ * lines are indented past the marker; a blank line ends the list unless
+ * an indented line or another item follows it.
+ */
+const parseList = (lines: Line[], from: number): { block: MdBlock; next: number } => {
+  const first = lines[from].text.match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const marker = ordered ? first[2].slice(-1) : first[2];
+  const items: MdBlock[][] = [];
+  let i = from;
+
+  while (i < lines.length) {
+    const match = lines[i].text.match(LIST_ITEM);
+    if (!match || /\d/.test(match[2]) !== ordered || (ordered ? match[2].slice(-1) : match[2]) !== marker) break;
+
+    const contentIndent = match[1].length + match[2].length + Math.min(match[3].length || 1, 4);
+    const itemLines: Line[] = [slice(lines[i], match[0].length)];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        const following = lines[i + 1];
+        if (following && !isBlank(following) && indentOf(following.text) >= contentIndent) {
+          itemLines.push(line);
+          i++;
+          continue;
+        }
+        break;
+      }
+      const indent = indentOf(line.text);
+      // Sub-lists are often indented less than the item's text
+      if (indent >= contentIndent || (indent > match[1].length && indent >= 2 && LIST_ITEM.test(line.text))) {
+        itemLines.push(dedent(line, Math.min(indent, contentIndent)));
+      } else if (!startsBlock(line) && !isBlank(itemLines[itemLines.length - 1])) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line);
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseLines(itemLines));
+
+    // Items separated by a blank line still belong to the same list
+    if (i < lines.length && isBlank(lines[i]) && lines[i + 1] && LIST_ITEM.test(lines[i + 1].text)) i++;
+  }
+
+  const start = ordered ? parseInt(first[2], 10) : 1;
+  return { block: { type: 'list', ordered, start, items }, next: i };
+};
+
+const parseLines = (lines: Line[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      const indent = indentOf(line.text);
+      const body: string[] = [];
+      let open = true;
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].text.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+        if (close && close[1][0] === fence[1][0] && close[1].length >= fence[1].length) {
+          open = false;
+          i++;
+          break;
+        }
+        body.push(dedent(lines[i], indent).text);
+        i++;
+      }
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: body.join('\n'), open });
+      continue;
+    }
+
+    const mathFence = line.text.match(MATH_FENCE);
+    if (mathFence) {
+      const closing = mathFence[1] === '$$' ? '$$' : '\\]';
+      const rest = line.text.trim().slice(2);
+      const end = rest.indexOf(closing);
+      if (end >= 0) {
+        blocks.push({ type: 'math', tex: rest.slice(0, end).trim() });
+        i++;
+        continue;
+      }
+      const body = [rest];
+      i++;
+      while (i < lines.length) {
+        const at = lines[i].text.indexOf(closing);
+        if (at >= 0) {
+          body.push(lines[i].text.slice(0, at));
+          i++;
+          break;
+        }
+        body.push(lines[i].text);
+        i++;
+      }
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      const text = heading[2] || '';
+      const at = text ? line.text.indexOf(text, heading[1].length) : 0;
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(text, line.start + at) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line.text)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line.text)) {
+      const quoted: Line[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].text)) {
+        quoted.push(slice(lines[i], lines[i].text.match(QUOTE)![0].length));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line.text)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (isTableRow(line) && lines[i + 1] && TABLE_DELIMITER.test(lines[i + 1].text)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(cell => alignOf(cell.text));
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && isTableRow(lines[i])) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => (cells[c] ? parseInline(cells[c].text, cells[c].start) : [])));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell.text, cell.start)), rows });
+      continue;
+    }
+
+    // Paragraph: single newlines inside it are kept as line breaks
+    const children: MdInline[] = [];
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (children.length > 0) {
+        if (startsBlock(lines[i], lines[i + 1])) break;
+        children.push({ type: 'break' });
+      }
+      const trimmed = lines[i].text.length - lines[i].text.trimStart().length;
+      children.push(...parseInline(lines[i].text.trim(), lines[i].start + trimmed));
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parse markdown into blocks
+ */
+export const parseMarkdown = (source: string): MdBlock[] => {
+  let start = 0;
+  const lines = source.split('\n').map(text => {
+    const line = { text: text.replace(/\r$/, ''), start };
+    start += text.length + 1;
+    return line;
+  });
+  return parseLines(lines);
+};
+
+// Closing delimiter of an emphasis run: not preceded by whitespace
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let at = text.indexOf(delimiter, from);
+  while (at >= 0) {
+    if (at > from && !/\s/.test(text[at - 1]) && text[at - 1] !== '\\') {
+      // Close at the end of a longer run, so ***both*** nests
+      while (text[at + delimiter.length] === delimiter[0]) at++;
+      // `_` only closes at a word boundary, so snake_case stays as it is
+      if (delimiter[0] !== '_' || !/[\p{L}\p{N}]/u.test(text[at + delimiter.length] || '')) return at;
+    }
+    at = text.indexOf(delimiter, at + 1);
+  }
+  return -1;
+};
+
+/**
+ * Parse inline markdown. `offset` is where `text` starts in the source.
+ */
+export const parseInline = (text: string, offset = 0): MdInline[] => {
+  const nodes: MdInline[] = [];
+  let plain = '';
+  let plainStart = 0;
+  let plainEnd = 0;
+
+  // Adjacent characters share a text node, so offsets stay exact
+  const pushText = (value: string, at: number) => {
+    if (plain && at !== plainEnd) flush();
+    if (!plain) plainStart = at;
+    plain += value;
+    plainEnd = at + value.length;
+  };
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain, start: offset + plainStart });
+    plain = '';
+  };
+  const push = (node: MdInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    // Escaped punctuation, and \( \) inline math
+    if (ch === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '(') {
+        const end = text.indexOf('\\)', i + 2);
+        if (end > 0) {
+          push({ type: 'math', tex: text.slice(i + 2, end) });
+          i = end + 2;
+          continue;
+        }
+      }
+      if (/[!-/:-@[-`{-~]/.test(text[i + 1])) {
+        pushText(text[i + 1], i + 1);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0) {
+        push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.+) $/, '$1') });
+        i = end + run.length;
+        continue;
+      }
+      pushText(run, i);
+      i += run.length;
+      continue;
+    }
+
+    // $...$ math; "$5 and $10" is left alone: no space inside the
+    // delimiters and no digit right after the closing one
+    if (ch === '$') {
+      const double = rest.startsWith('$$');
+      const delimiter = double ? '$$' : '$';
+      const inner = i + delimiter.length;
+      const end = text.indexOf(delimiter, inner);
+      if (end > inner && !/\s/.test(text[inner]) && !/\s/.test(text[end - 1]) && !/\d/.test(text[end + delimiter.length] || '')) {
+        push({ type: 'math', tex: text.slice(inner, end) });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    const emphasis = rest.match(/^(\*\*|__|~~|\*|_)/);
+    if (emphasis && !/\s/.test(text[i + emphasis[1].length] || ' ')) {
+      const delimiter = emphasis[1];
+      const intraword = delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] || '');
+      const end = intraword ? -1 : findClosing(text, delimiter, i + delimiter.length);
+      if (end > 0) {
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        const start = i + delimiter.length;
+        push({ type, children: parseInline(text.slice(start, end), offset + start) });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    // [text](url), and ![alt](url) shown as a link rather than loaded
+    const link = rest.match(/^!?\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/);
+    if (link) {
+      const labelStart = i + rest.indexOf('[') + 1;
+      if (SAFE_HREF.test(link[2])) {
+        push({ type: 'link', href: link[2], children: parseInline(link[1] || link[2], offset + labelStart) });
+      } else {
+        pushText(link[1], labelStart);
+      }
+      i += link[0].length;
+      continue;
+    }
+
+    if ((ch === 'h' || ch === '<') && (i === 0 || /[\s(]/.test(text[i - 1]) || ch === '<')) {
+      const angle = rest.match(/^<(https?:\/\/[^\s>]+)>/);
+      const url = angle ? angle[1] : rest.match(BARE_URL)?.[0];
+      if (url) {
+        push({ type: 'link', href: url, children: [{ type: 'text', text: url, start: offset + i + (angle ? 1 : 0) }] });
+        i += angle ? angle[0].length : url.length;
+        continue;
+      }
+    }
+
+    // <br> is common in table cells written by models
+    const br = rest.match(/^<br\s*\/?>/i);
+    if (br) {
+      push({ type: 'break' });
+      i += br[0].length;
+      continue;
+    }
+
+    pushText(ch, i);
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
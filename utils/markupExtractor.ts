@@ -0,0 +1,335 @@
+import { DocumentSection } from "../types";
+import { readZip, zipEntryMap, ZipEntry } from "./zipReader";
+import { parseXml, childElements, textContent, isElement, XmlNode } from "./xmlParser";
+
+/**
+ * Structure-preserving readers for HTML, Markdown and EPUB. Each returns
+ * clean text with markdown-style headings plus the section outline, so
+ * chunks and citations can name the section they come from.
+ */
+
+export interface StructuredText {
+  text: string;
+  sections: DocumentSection[];
+}
+
+interface Block {
+  text: string;
+  headingLevel?: number;
+  listItem?: boolean; // consecutive list items are joined without blank lines
+}
+
+/**
+ * Join blocks with blank lines, recording a section at every heading
+ */
+const assemble = (blocks: Block[]): StructuredText => {
+  let text = '';
+  const sections: DocumentSection[] = [];
+  let previous: Block | undefined;
+  blocks.forEach(block => {
+    const body = block.listItem ? block.text.trimEnd() : block.text.trim();
+    if (!body.trim()) return;
+    if (text) text += block.listItem && previous?.listItem ? '\n' : '\n\n';
+    previous = block;
+    if (block.headingLevel) {
+      sections.push({ title: body, level: block.headingLevel, start: text.length });
+      text += `${'#'.repeat(Math.min(6, block.headingLevel))} ${body}`;
+    } else {
+      text += body;
+    }
+  });
+  return { text, sections };
+};
+
+// --- HTML ---
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav', 'button', 'form', 'iframe']);
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'aside', 'header', 'footer', 'blockquote', 'figure', 'figcaption',
+  'dl', 'dt', 'dd', 'address', 'details', 'summary', 'body', 'html', 'hr'
+]);
+
+// HTML tag names are case-insensitive and XHTML may carry namespace prefixes
+const localName = (node: XmlNode) => node.name.toLowerCase().replace(/^.*:/, '');
+
+const findByName = (node: XmlNode, name: string): XmlNode[] => {
+  const found: XmlNode[] = [];
+  const visit = (current: XmlNode) => childElements(current).forEach(child => {
+    if (localName(child) === name) found.push(child);
+    visit(child);
+  });
+  visit(node);
+  return found;
+};
+
+const findFirstByName = (node: XmlNode, name: string): XmlNode | undefined => findByName(node, name)[0];
+
+// Raw-text elements may contain "<" that is not markup, so remove them before parsing
+const stripRawText = (html: string) =>
+  html.replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const inlineText = (node: XmlNode): string =>
+  node.children.map(child => {
+    if (!isElement(child)) return collapse(child);
+    const name = localName(child);
+    if (SKIPPED_ELEMENTS.has(name)) return '';
+    if (name === 'br') return '\n';
+    if (name === 'img') return child.attrs.alt ? ` ${child.attrs.alt} ` : '';
+    return inlineText(child);
+  }).join('');
+
+/**
+ * Walk the HTML tree emitting blocks. Inline content between block
+ * elements is gathered into paragraphs.
+ */
+const htmlBlocks = (root: XmlNode, headingOffset = 0): Block[] => {
+  const blocks: Block[] = [];
+  let pending = '';
+  const flush = () => {
+    if (pending.trim()) blocks.push({ text: pending.replace(/ *\n */g, '\n').replace(/ {2,}/g, ' ') });
+    pending = '';
+  };
+
+  const visit = (node: XmlNode, listDepth: number) => {
+    node.children.forEach(child => {
+      if (!isElement(child)) {
+        pending += collapse(child);
+        return;
+      }
+      const name = localName(child);
+      if (SKIPPED_ELEMENTS.has(name)) return;
+
+      const heading = name.match(/^h([1-6])$/);
+      if (heading) {
+        flush();
+        blocks.push({ text: collapse(inlineText(child)), headingLevel: parseInt(heading[1], 10) + headingOffset });
+      } else if (name === 'ul' || name === 'ol') {
+        flush();
+        const ordered = name === 'ol';
+        childElements(child).filter(li => localName(li) === 'li').forEach((li, i) => {
+          const nested = childElements(li).filter(c => ['ul', 'ol'].includes(localName(c)));
+          const own: XmlNode = { ...li, children: li.children.filter(c => !nested.includes(c as XmlNode)) };
+          const marker = ordered ? `${i + 1}.` : '-';
+          blocks.push({ text: `${'  '.repeat(listDepth)}${marker} ${collapse(inlineText(own)).trim()}`, listItem: true });
+          nested.forEach(list => visit({ ...li, children: [list] }, listDepth + 1));
+        });
+      } else if (name === 'pre') {
+        flush();
+        blocks.push({ text: textContent(child) });
+      } else if (name === 'table') {
+        flush();
+        blocks.push({
+          text: findByName(child, 'tr').map(row => childElements(row)
+            .filter(cell => ['td', 'th'].includes(localName(cell)))
+            .map(cell => collapse(inlineText(cell)).trim())
+            .join('\t')).join('\n')
+        });
+      } else if (name === 'br') {
+        pending += '\n';
+      } else if (BLOCK_ELEMENTS.has(name) || name === 'li') {
+        flush();
+        visit(child, listDepth);
+        flush();
+      } else if (name === 'img') {
+        if (child.attrs.alt) pending += ` ${child.attrs.alt} `;
+      } else {
+        visit(child, listDepth);
+      }
+    });
+  };
+
+  visit(root, 0);
+  flush();
+  return blocks;
+};
+
+const parseHtml = (html: string): XmlNode => parseXml(stripRawText(html), VOID_ELEMENTS);
+
+export const extractHtml = (html: string): StructuredText => {
+  const root = parseHtml(html);
+  const body = findFirstByName(root, 'body') || root;
+  return assemble(htmlBlocks(body));
+};
+
+// --- Markdown ---
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)\r?\n/;
+
+/**
+ * Strip inline markup that is noise to the model: link targets, image
+ * sources, emphasis markers and raw HTML tags
+ */
+const cleanMarkdownInline = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[\s(])[*_]([^*_\s][^*_]*?)[*_](?=[\s).,;:!?]|$)/g, '$1$2');
+
+export const extractMarkdown = (markdown: string): StructuredText => {
+  const lines = markdown.replace(FRONT_MATTER, '').split(/\r?\n/);
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  let fenceInfo = '';
+  let code: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  lines.forEach((line, i) => {
+    const fenceMatch = line.match(/^\s*(```+|~~~+)\s*([\w+-]*)/);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        blocks.push({ text: ['```' + fenceInfo, ...code, '```'].join('\n') });
+        fence = null;
+        code = [];
+      } else {
+        code.push(line);
+      }
+      return;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      fenceInfo = fenceMatch[2];
+      return;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const next = lines[i + 1];
+    if (atx) {
+      flush();
+      blocks.push({ text: cleanMarkdownInline(atx[2]), headingLevel: atx[1].length });
+    } else if (paragraph.length === 0 && line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+      // Setext heading: the underline is consumed on the next iteration
+      blocks.push({ text: cleanMarkdownInline(line.trim()), headingLevel: next.trim()[0] === '=' ? 1 : 2 });
+      lines[i + 1] = '';
+    } else if (!line.trim()) {
+      flush();
+    } else if (/^\s{0,3}\[[^\]]+\]:\s*\S+/.test(line)) {
+      // Reference-style link definition
+    } else {
+      paragraph.push(cleanMarkdownInline(line));
+    }
+  });
+  if (fence) blocks.push({ text: ['```' + fenceInfo, ...code, '```'].join('\n') });
+  flush();
+
+  return assemble(blocks);
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string): string => {
+  const segments = base.includes('/') ? base.slice(0, base.lastIndexOf('/')).split('/') : [];
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+/**
+ * Chapter titles from the table of contents (EPUB 3 nav or EPUB 2 NCX),
+ * keyed by content file path; the first entry per file wins
+ */
+interface ManifestItem {
+  href: string;
+  properties: string;
+  mediaType: string;
+}
+
+const readTableOfContents = async (
+  parts: Map<string, ZipEntry>,
+  manifest: Map<string, ManifestItem>,
+  opfPath: string,
+  ncxId?: string
+): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const add = (base: string, href: string, title: string) => {
+    const path = resolvePath(base, href);
+    if (title.trim() && !titles.has(path)) titles.set(path, collapse(title).trim());
+  };
+
+  const nav = [...manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.href);
+    const entry = parts.get(navPath);
+    if (entry) {
+      findByName(parseHtml(await entry.text()), 'a').forEach(a => add(navPath, a.attrs.href || '', inlineText(a)));
+      if (titles.size > 0) return titles;
+    }
+  }
+
+  const ncx = (ncxId && manifest.get(ncxId)) || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.href);
+    const entry = parts.get(ncxPath);
+    if (entry) {
+      findByName(parseXml(await entry.text()), 'navpoint').forEach(point => {
+        const label = findFirstByName(point, 'text');
+        const content = findFirstByName(point, 'content');
+        if (label && content) add(ncxPath, content.attrs.src || '', textContent(label));
+      });
+    }
+  }
+  return titles;
+};
+
+export const extractEpub = async (data: ArrayBuffer | Blob): Promise<StructuredText> => {
+  const parts = zipEntryMap(await readZip(data));
+
+  const container = parts.get('META-INF/container.xml');
+  if (!container) throw new Error('Not an EPUB (META-INF/container.xml missing)');
+  const rootfile = findFirstByName(parseXml(await container.text()), 'rootfile');
+  const opfPath = rootfile?.attrs['full-path'];
+  const opfEntry = opfPath && parts.get(opfPath);
+  if (!opfPath || !opfEntry) throw new Error('EPUB package document not found');
+
+  const opf = parseXml(await opfEntry.text());
+  const manifest = new Map<string, ManifestItem>();
+  findByName(opf, 'item').forEach(item => manifest.set(item.attrs.id, {
+    href: item.attrs.href || '',
+    properties: item.attrs.properties || '',
+    mediaType: item.attrs['media-type'] || ''
+  }));
+  const spine = findFirstByName(opf, 'spine');
+  const toc = await readTableOfContents(parts, manifest, opfPath, spine?.attrs.toc);
+
+  const blocks: Block[] = [];
+  const itemrefs = findByName(opf, 'itemref').filter(ref => ref.attrs.linear !== 'no');
+  for (const [index, ref] of itemrefs.entries()) {
+    const item = manifest.get(ref.attrs.idref);
+    if (!item) continue;
+    const path = resolvePath(opfPath, item.href);
+    const entry = parts.get(path);
+    if (!entry) continue;
+
+    const root = parseHtml(await entry.text());
+    const body = findFirstByName(root, 'body') || root;
+    // Chapter headings nest under the chapter title from the table of contents
+    const chapterBlocks = htmlBlocks(body, 1);
+    if (chapterBlocks.length === 0) continue;
+
+    const documentTitle = findFirstByName(root, 'title');
+    const firstHeading = chapterBlocks.find(b => b.headingLevel)?.text;
+    const title = toc.get(path) || firstHeading || (documentTitle && textContent(documentTitle).trim()) || `Chapter ${index + 1}`;
+    // Drop the chapter's own heading when it just repeats the title
+    const firstIndex = chapterBlocks.findIndex(b => b.text.trim());
+    if (chapterBlocks[firstIndex]?.headingLevel && collapse(chapterBlocks[firstIndex].text).trim().toLowerCase() === title.toLowerCase()) {
+      chapterBlocks.splice(firstIndex, 1);
+    }
+    blocks.push({ text: title, headingLevel: 1 }, ...chapterBlocks);
+  }
+
+  if (blocks.length === 0) throw new Error('No readable chapters found in EPUB');
+  return assemble(blocks);
+};
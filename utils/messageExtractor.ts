@@ -0,0 +1,398 @@
+import { MessageRecord } from "../types";
+import { extractHtml } from "./markupExtractor";
+
+/**
+ * Readers for mailboxes (.eml, .mbox) and chat exports (Slack and Teams
+ * JSON). Messages are grouped by thread and rendered as plain text; each
+ * keeps its sender, recipients, date and thread id as a MessageRecord
+ * pointing at its span of the text.
+ */
+
+export interface MessageText {
+  text: string;
+  messages: MessageRecord[];
+}
+
+interface ParsedMessage {
+  id: string;
+  threadId: string;
+  from: string;
+  to: string[];
+  date?: number;
+  subject?: string;
+  body: string;
+  attachments: string[];
+  chat: boolean; // rendered as "Name (date): text" rather than with mail headers
+}
+
+const formatDate = (date: number): string => `${new Date(date).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const renderMessage = (message: ParsedMessage): string => {
+  const attachments = message.attachments.length > 0 ? `\n\n[Attachments: ${message.attachments.join(', ')}]` : '';
+  if (message.chat) {
+    const date = message.date !== undefined ? ` (${formatDate(message.date)})` : '';
+    return `${message.from}${date}:\n${message.body}${attachments}`;
+  }
+  const headers = [
+    `From: ${message.from}`,
+    message.to.length > 0 && `To: ${message.to.join(', ')}`,
+    message.date !== undefined && `Date: ${formatDate(message.date)}`,
+    message.subject && `Subject: ${message.subject}`
+  ].filter(Boolean);
+  return `${headers.join('\n')}\n\n${message.body}${attachments}`;
+};
+
+// Undated messages sort after dated ones and otherwise keep their order
+const byDate = (a: ParsedMessage, b: ParsedMessage) =>
+  (a.date ?? Number.MAX_SAFE_INTEGER) - (b.date ?? Number.MAX_SAFE_INTEGER);
+
+/**
+ * Render messages thread by thread, oldest thread first, so a thread reads
+ * top to bottom and chunks can stay within one
+ */
+const assemble = (parsed: ParsedMessage[]): MessageText => {
+  const threads = new Map<string, ParsedMessage[]>();
+  parsed.forEach(message => {
+    const thread = threads.get(message.threadId);
+    if (thread) thread.push(message);
+    else threads.set(message.threadId, [message]);
+  });
+
+  let text = '';
+  const messages: MessageRecord[] = [];
+  Array.from(threads.values())
+    .map(thread => [...thread].sort(byDate))
+    .sort((a, b) => byDate(a[0], b[0]))
+    .flat()
+    .forEach(message => {
+      if (text) text += '\n\n';
+      const start = text.length;
+      text += renderMessage(message);
+      const { id, threadId, from, to, date, subject } = message;
+      messages.push({ id, threadId, from, to, date, subject, start, end: text.length });
+    });
+  return { text, messages };
+};
+
+// --- Mail ---
+
+interface MimePart {
+  headers: Map<string, string>; // lower-cased names, unfolded values
+  body: string;
+}
+
+const splitHeaders = (raw: string): MimePart => {
+  // A part may have no headers at all and start with the blank line
+  const separator = raw.match(/^\r?\n|\r?\n\r?\n/);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index! + separator[0].length) : '';
+  const headers = new Map<string, string>();
+  headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+  return { headers, body };
+};
+
+const headerParam = (value: string, param: string): string | undefined => {
+  const match = value.match(new RegExp(`;\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+};
+
+const decodeBytes = (bytes: Uint8Array, charset: string = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const base64Bytes = (data: string): Uint8Array => {
+  try {
+    return Uint8Array.from(atob(data.replace(/\s+/g, '')), c => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+};
+
+/**
+ * Bytes of quoted-printable text: =XX escapes become bytes, anything else
+ * is taken as already-decoded characters
+ */
+const quotedPrintableBytes = (text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      const codePoint = text.codePointAt(i)!;
+      if (codePoint > 0xffff) i++;
+      bytes.push(...encoder.encode(String.fromCodePoint(codePoint)));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Decode RFC 2047 encoded words in headers, e.g. "=?UTF-8?B?w6lsw6g=?="
+ */
+const decodeEncodedWords = (value: string): string =>
+  value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) =>
+      decodeBytes(encoding.toUpperCase() === 'B' ? base64Bytes(data) : quotedPrintableBytes(data.replace(/_/g, ' ')), charset)
+    );
+
+const decodeTransfer = (part: MimePart): string => {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  const charset = headerParam(part.headers.get('content-type') || '', 'charset');
+  if (encoding === 'base64') return decodeBytes(base64Bytes(part.body), charset);
+  if (encoding === 'quoted-printable') return decodeBytes(quotedPrintableBytes(part.body.replace(/=\r?\n/g, '')), charset);
+  return part.body;
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\n'));
+      if (line.startsWith(`${delimiter}--`)) return parts;
+      current = [];
+    } else {
+      current?.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\n'));
+  return parts;
+};
+
+interface MailBody {
+  plain: string[];
+  html: string[];
+  attachments: string[];
+}
+
+const readPart = (part: MimePart, body: MailBody): void => {
+  const contentType = part.headers.get('content-type') || 'text/plain';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = part.headers.get('content-disposition') || '';
+  const filename = headerParam(disposition, 'filename') || headerParam(contentType, 'name');
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (boundary) splitMultipart(part.body, boundary).forEach(child => readPart(splitHeaders(child), body));
+    return;
+  }
+  if (type === 'message/rfc822') {
+    readPart(splitHeaders(part.body), body);
+    return;
+  }
+  if (/^attachment/i.test(disposition) || (filename && !type.startsWith('text/'))) {
+    body.attachments.push(decodeEncodedWords(filename || 'unnamed'));
+    return;
+  }
+  if (type === 'text/html') body.html.push(decodeTransfer(part));
+  else if (type.startsWith('text/')) body.plain.push(decodeTransfer(part));
+};
+
+/**
+ * Drop quoted replies: every thread message is ingested anyway, so quoted
+ * text would only repeat earlier messages
+ */
+const stripQuotedReplies = (text: string): string => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const original = lines.findIndex(line => /^-{2,}\s*Original Message\s*-{2,}/i.test(line.trim()));
+  const kept = (original >= 0 ? lines.slice(0, original) : lines).filter((line, i, all) => {
+    if (/^\s*>/.test(line)) return false;
+    // "On Tue, Bob wrote:" directly above a quote
+    if (!/^On .+wrote:\s*$/.test(line.trim())) return true;
+    const next = all.slice(i + 1).find(l => l.trim());
+    return next === undefined || !/^\s*>/.test(next);
+  });
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const splitAddresses = (value: string): string[] =>
+  (value.match(/(?:"[^"]*"|[^,])+/g) || []).map(address => address.trim()).filter(Boolean);
+
+const messageIds = (value: string): string[] => (value.match(/<[^>]+>/g) || []).map(id => id.slice(1, -1));
+
+const normalizeSubject = (subject: string): string =>
+  subject.replace(/^(\s*(re|fwd?|aw|wg|sv|vs)\s*(\[\d+\])?\s*:\s*)+/i, '').trim().toLowerCase();
+
+const parseMail = (raw: string, index: number): ParsedMessage => {
+  const part = splitHeaders(raw.replace(/^\s+/, ''));
+  const header = (name: string) => decodeEncodedWords(part.headers.get(name) || '');
+  const body: MailBody = { plain: [], html: [], attachments: [] };
+  readPart(part, body);
+
+  const text = body.plain.length > 0
+    ? body.plain.join('\n\n')
+    : body.html.map(html => extractHtml(html).text).join('\n\n');
+  const subject = header('subject');
+  const id = messageIds(part.headers.get('message-id') || '')[0];
+  const references = messageIds(part.headers.get('references') || '');
+  const inReplyTo = messageIds(part.headers.get('in-reply-to') || '')[0];
+  const date = Date.parse(part.headers.get('date') || '');
+
+  return {
+    id: id || `message-${index + 1}`,
+    // The first reference is the thread root; a root message is its own thread
+    threadId: references[0] || inReplyTo || id || `subject:${normalizeSubject(subject)}`,
+    from: header('from') || 'Unknown sender',
+    to: [...splitAddresses(header('to')), ...splitAddresses(header('cc'))],
+    date: Number.isNaN(date) ? undefined : date,
+    subject: subject || undefined,
+    body: stripQuotedReplies(text),
+    attachments: body.attachments,
+    chat: false
+  };
+};
+
+export const extractEml = (raw: string): MessageText => assemble([parseMail(raw, 0)]);
+
+/**
+ * Split an mbox on its "From " separator lines, undoing the ">From "
+ * escaping of body lines
+ */
+export const extractMbox = (raw: string): MessageText => {
+  const messages = raw
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+  return assemble(messages.map(parseMail));
+};
+
+// --- Chat exports ---
+
+interface SlackMessage {
+  ts: string;
+  thread_ts?: string;
+  subtype?: string;
+  user?: string;
+  user_name?: string;
+  username?: string;
+  user_profile?: { real_name?: string; display_name?: string; name?: string };
+  text?: string;
+  files?: { name?: string }[];
+}
+
+interface TeamsMessage {
+  id?: string;
+  replyToId?: string | null;
+  messageType?: string;
+  createdDateTime?: string;
+  subject?: string | null;
+  from?: { user?: { displayName?: string } | null; application?: { displayName?: string } | null; displayName?: string } | string | null;
+  body?: { contentType?: string; content?: string };
+  content?: string;
+  attachments?: { name?: string }[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isSlackExport = (data: unknown): data is SlackMessage[] =>
+  Array.isArray(data) && data.length > 0 && data.every(m => isObject(m) && typeof m.ts === 'string');
+
+const teamsMessages = (data: unknown): TeamsMessage[] | null => {
+  const list = Array.isArray(data) ? data : isObject(data) ? data.messages ?? data.value : null;
+  const isTeams = Array.isArray(list) && list.length > 0 &&
+    list.every(m => isObject(m) && typeof m.createdDateTime === 'string' && (isObject(m.body) || typeof m.content === 'string'));
+  return isTeams ? list as TeamsMessage[] : null;
+};
+
+/**
+ * Slack markup: <@U123|name> mentions, <url|label> links, escaped &<>
+ */
+const cleanSlackText = (text: string): string =>
+  text
+    .replace(/<@([A-Z0-9]+)(?:\|([^>]+))?>/g, (_, id: string, name?: string) => `@${name || id}`)
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<!(here|channel|everyone)[^>]*>/g, '@$1')
+    .replace(/<([^|>]+)\|([^>]+)>/g, '$2')
+    .replace(/<([^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// Membership and housekeeping events carry no conversation
+const SLACK_IGNORED_SUBTYPES = /_(join|leave|purpose|topic|name|archive|unarchive)$/;
+
+/**
+ * Slack exports hold one file per channel and day in a folder named after
+ * the channel; a lone file is named after itself
+ */
+const channelName = (path: string): string => {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : parts[0].replace(/\.[^.]+$/, '');
+};
+
+const parseSlack = (messages: SlackMessage[], channel: string): ParsedMessage[] =>
+  messages
+    .filter(m => !(m.subtype && SLACK_IGNORED_SUBTYPES.test(m.subtype)) && (m.text?.trim() || m.files?.length))
+    .map(m => ({
+      id: m.ts,
+      threadId: `slack:${channel}:${m.thread_ts || m.ts}`,
+      from: m.user_profile?.real_name || m.user_profile?.display_name || m.user_name || m.username || m.user || 'Unknown',
+      to: [`#${channel}`],
+      date: Math.round(parseFloat(m.ts) * 1000),
+      subject: `#${channel}`,
+      body: cleanSlackText(m.text || '').trim(),
+      attachments: (m.files || []).map(f => f.name || 'file'),
+      chat: true
+    }));
+
+const teamsSender = (from: TeamsMessage['from']): string => {
+  if (typeof from === 'string') return from;
+  return from?.user?.displayName || from?.application?.displayName || from?.displayName || 'Unknown';
+};
+
+const parseTeams = (messages: TeamsMessage[], chat: string): ParsedMessage[] => {
+  const subjects = new Map(messages.filter(m => m.id && m.subject).map(m => [m.id!, m.subject!]));
+  return messages
+    .filter(m => !m.messageType || m.messageType === 'message')
+    .map((m, i) => {
+      const content = m.body?.content ?? m.content ?? '';
+      const body = m.body?.contentType === 'html' || /<\/?[a-z][^>]*>/i.test(content) ? extractHtml(content).text : content;
+      const root = m.replyToId || m.id || `${i}`;
+      const date = Date.parse(m.createdDateTime || '');
+      return {
+        id: m.id || `${i}`,
+        threadId: `teams:${chat}:${root}`,
+        from: teamsSender(m.from),
+        to: [chat],
+        date: Number.isNaN(date) ? undefined : date,
+        subject: subjects.get(root) || m.subject || chat,
+        body: body.trim(),
+        attachments: (m.attachments || []).map(a => a.name).filter((name): name is string => !!name),
+        chat: true
+      };
+    })
+    .filter(m => m.body || m.attachments.length > 0);
+};
+
+/**
+ * Read a Slack or Teams JSON export. Returns null for any other JSON, which
+ * is then ingested as plain text.
+ */
+export const extractChatExport = (json: string, path: string): MessageText | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const channel = channelName(path);
+  const teams = teamsMessages(data);
+  const parsed = isSlackExport(data) ? parseSlack(data, channel) : teams ? parseTeams(teams, channel) : null;
+  return parsed && parsed.length > 0 ? assemble(parsed) : null;
+};
@@ -0,0 +1,89 @@
+import { DocumentChunk } from "../types";
+
+/**
+ * Sender and date filters over mail and chat chunks. Both the search bar
+ * and chat questions accept them inline, Gmail style:
+ * `from:alice after:2024-01-01 before:"2024-03-31" budget`.
+ */
+
+export interface MessageFilter {
+  sender?: string; // case-insensitive substring of the sender name or address
+  after?: number; // epoch ms, inclusive
+  before?: number; // epoch ms, inclusive
+}
+
+const OPERATOR_PATTERN = /(?:^|\s)(from|after|before):("[^"]*"|\S+)/gi;
+
+export const isFilterEmpty = (filter: MessageFilter): boolean =>
+  !filter.sender && filter.after === undefined && filter.before === undefined;
+
+/**
+ * Parse a date given as YYYY-MM-DD (or anything Date.parse accepts).
+ * A bare date is a day in the user's timezone, not UTC; `endOfDay` makes
+ * it inclusive as an upper bound.
+ */
+export const parseFilterDate = (value: string, endOfDay: boolean = false): number | undefined => {
+  const day = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const [year, month, date] = day.slice(1).map(Number);
+    // Out-of-range days such as 2024-02-30 would roll over into the next month
+    if (new Date(year, month - 1, date).getDate() !== date) return undefined;
+    // The next local midnight, so days with a DST change are whole too
+    return endOfDay ? new Date(year, month - 1, date + 1).getTime() - 1 : new Date(year, month - 1, date).getTime();
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Split a query into its free text and its from:/after:/before: operators.
+ * Operators with unparseable values are left in the text.
+ */
+export const parseMessageFilter = (query: string): { text: string; filter: MessageFilter } => {
+  const filter: MessageFilter = {};
+  const text = query.replace(OPERATOR_PATTERN, (match, operator: string, rawValue: string) => {
+    const value = rawValue.replace(/^"|"$/g, '');
+    switch (operator.toLowerCase()) {
+      case 'from':
+        filter.sender = value;
+        return ' ';
+      case 'after':
+      case 'before': {
+        const date = parseFilterDate(value, operator.toLowerCase() === 'before');
+        if (date === undefined) return match;
+        filter[operator.toLowerCase() as 'after' | 'before'] = date;
+        return ' ';
+      }
+      default:
+        return match;
+    }
+  });
+  return { text: text.replace(/\s+/g, ' ').trim(), filter };
+};
+
+/**
+ * Explicit filter fields (e.g. from the search bar inputs) win over ones
+ * typed into the query
+ */
+export const mergeFilters = (base: MessageFilter, override: MessageFilter): MessageFilter => ({
+  sender: override.sender || base.sender,
+  after: override.after ?? base.after,
+  before: override.before ?? base.before
+});
+
+/**
+ * A chunk matches when one of its messages is from the sender and its date
+ * span overlaps the range. Chunks that are not messages never match an
+ * active filter.
+ */
+export const matchesMessageFilter = (chunk: DocumentChunk, filter: MessageFilter): boolean => {
+  if (isFilterEmpty(filter)) return true;
+  if (!chunk.senders) return false;
+  if (filter.sender) {
+    const sender = filter.sender.toLowerCase();
+    if (!chunk.senders.some(s => s.toLowerCase().includes(sender))) return false;
+  }
+  if (filter.after !== undefined && (chunk.lastDate === undefined || chunk.lastDate < filter.after)) return false;
+  if (filter.before !== undefined && (chunk.firstDate === undefined || chunk.firstDate > filter.before)) return false;
+  return true;
+};
@@ -0,0 +1,45 @@
+import Tesseract from "tesseract.js";
+import { Lang, OCR_LANGUAGES, detectLanguage } from "./i18n";
+
+/**
+ * OCR helpers shared by image uploads and scanned PDF pages
+ */
+
+export type OcrLanguage = 'auto' | Lang;
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Tesseract's mean word confidence, 0-100
+  language: Lang;
+}
+
+// Pages recognised below this confidence are flagged in the sidebar
+export const LOW_CONFIDENCE_THRESHOLD = 60;
+
+const isLang = (code: string): code is Lang => code in OCR_LANGUAGES;
+
+/**
+ * Recognise text in an image. With 'auto', all supported languages are
+ * loaded and the language is then read off the result with detectLanguage.
+ */
+export const recognizeText = async (image: Tesseract.ImageLike, language: OcrLanguage): Promise<OcrResult> => {
+  const models = language === 'auto' ? Object.values(OCR_LANGUAGES).join('+') : OCR_LANGUAGES[language];
+  const result = await Tesseract.recognize(image, models);
+  const text = result.data.text;
+
+  let detected: Lang = language === 'auto' ? 'en' : language;
+  if (language === 'auto') {
+    const code = await detectLanguage(text);
+    if (isLang(code)) detected = code;
+  }
+  return { text, confidence: result.data.confidence, language: detected };
+};
+
+/**
+ * Resolve 'auto' to a concrete language from text we already have
+ */
+export const resolveOcrLanguage = async (language: OcrLanguage, sample: string): Promise<OcrLanguage> => {
+  if (language !== 'auto' || !sample.trim()) return language;
+  const code = await detectLanguage(sample);
+  return isLang(code) ? code : 'auto';
+};
@@ -0,0 +1,218 @@
+import { readZip, zipEntryMap, ZipEntry } from "./zipReader";
+import { parseXml, findAll, findFirst, childElements, textContent, XmlNode } from "./xmlParser";
+
+/**
+ * Text extraction for Office Open XML documents (.docx, .pptx, .xlsx).
+ * Each format is a ZIP of XML parts; we read only the parts carrying text.
+ */
+
+export type OfficeFormat = 'docx' | 'pptx' | 'xlsx';
+
+export const OFFICE_MIME_TYPES: Record<OfficeFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export const detectOfficeFormat = (fileName: string, mimeType: string): OfficeFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'docx' || extension === 'pptx' || extension === 'xlsx') return extension;
+  const byMime = (Object.keys(OFFICE_MIME_TYPES) as OfficeFormat[]).find(f => OFFICE_MIME_TYPES[f] === mimeType);
+  return byMime || null;
+};
+
+type Parts = Map<string, ZipEntry>;
+
+const readPart = async (parts: Parts, path: string): Promise<XmlNode | null> => {
+  const entry = parts.get(path);
+  return entry ? parseXml(await entry.text()) : null;
+};
+
+/**
+ * Resolve relationship ids (r:id) of a part to absolute part paths
+ */
+const readRelationships = async (parts: Parts, partPath: string): Promise<Map<string, string>> => {
+  const slash = partPath.lastIndexOf('/');
+  const dir = partPath.slice(0, slash);
+  const rels = await readPart(parts, `${dir}/_rels/${partPath.slice(slash + 1)}.rels`);
+  const map = new Map<string, string>();
+  if (!rels) return map;
+
+  findAll(rels, 'Relationship').forEach(rel => {
+    const target = rel.attrs.Target || '';
+    const segments = target.startsWith('/') ? [] : dir.split('/');
+    target.replace(/^\//, '').split('/').forEach(segment => {
+      if (segment === '..') segments.pop();
+      else if (segment !== '.') segments.push(segment);
+    });
+    map.set(rel.attrs.Id, segments.filter(Boolean).join('/'));
+  });
+  return map;
+};
+
+// --- Word ---
+
+const HEADING_STYLE = /^heading\s*(\d)$/i;
+
+const wordRunText = (node: XmlNode): string =>
+  node.children.map(child => {
+    if (typeof child === 'string') return '';
+    switch (child.name) {
+      case 'w:t': return textContent(child);
+      case 'w:tab': return '\t';
+      case 'w:br':
+      case 'w:cr': return '\n';
+      case 'w:noBreakHyphen': return '-';
+      // Properties (which list tab stops), deleted revisions and field codes are not visible text
+      case 'w:pPr':
+      case 'w:rPr':
+      case 'w:del':
+      case 'w:instrText': return '';
+      default: return wordRunText(child);
+    }
+  }).join('');
+
+const wordParagraph = (paragraph: XmlNode): string => {
+  const text = wordRunText(paragraph).trim();
+  if (!text) return '';
+
+  const style = findFirst(paragraph, 'w:pStyle')?.attrs['w:val'] || '';
+  if (/^title$/i.test(style)) return `# ${text}`;
+  const heading = style.replace(/[-_ ]/g, '').match(HEADING_STYLE);
+  if (heading) return `${'#'.repeat(Math.min(6, parseInt(heading[1], 10) + 1))} ${text}`;
+  if (findFirst(paragraph, 'w:numPr')) return `- ${text}`;
+  return text;
+};
+
+const wordTable = (table: XmlNode): string =>
+  childElements(table, 'w:tr')
+    .map(row => childElements(row, 'w:tc')
+      .map(cell => childElements(cell, 'w:p').map(p => wordRunText(p).trim()).filter(Boolean).join(' '))
+      .join('\t'))
+    .join('\n');
+
+const extractDocx = async (parts: Parts): Promise<string> => {
+  const document = await readPart(parts, 'word/document.xml');
+  const body = document && findFirst(document, 'w:body');
+  if (!body) throw new Error('Word document body not found');
+
+  const blocks: string[] = [];
+  const visit = (node: XmlNode) => {
+    childElements(node).forEach(child => {
+      if (child.name === 'w:p') blocks.push(wordParagraph(child));
+      else if (child.name === 'w:tbl') blocks.push(wordTable(child));
+      // Content controls and tracked insertions wrap ordinary paragraphs
+      else if (child.name === 'w:sdt' || child.name === 'w:sdtContent' || child.name === 'w:ins') visit(child);
+    });
+  };
+  visit(body);
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+// --- PowerPoint ---
+
+const slideText = (slide: XmlNode, skipPlaceholders: string[] = []): string => {
+  const shapes = findAll(slide, 'p:sp').filter(shape => {
+    const type = findFirst(shape, 'p:ph')?.attrs.type;
+    return !type || !skipPlaceholders.includes(type);
+  });
+  return shapes
+    .flatMap(shape => findAll(shape, 'a:p'))
+    .map(p => findAll(p, 'a:t').map(textContent).join('').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+const extractPptx = async (parts: Parts): Promise<string> => {
+  const presentation = await readPart(parts, 'ppt/presentation.xml');
+  const rels = await readRelationships(parts, 'ppt/presentation.xml');
+  let slidePaths = presentation
+    ? findAll(presentation, 'p:sldId').map(s => rels.get(s.attrs['r:id'])).filter((p): p is string => !!p)
+    : [];
+  if (slidePaths.length === 0) {
+    const slideNumber = (path: string) => parseInt(path.match(/(\d+)\.xml$/)?.[1] || '0', 10);
+    slidePaths = [...parts.keys()]
+      .filter(p => /^ppt\/slides\/slide\d+\.xml$/.test(p))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  const sections: string[] = [];
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slide = await readPart(parts, slidePaths[i]);
+    if (!slide) continue;
+    let section = `## Slide ${i + 1}\n${slideText(slide)}`;
+
+    const slideRels = await readRelationships(parts, slidePaths[i]);
+    const notesPath = [...slideRels.values()].find(p => p.includes('notesSlides/'));
+    const notes = notesPath && await readPart(parts, notesPath);
+    const notesText = notes ? slideText(notes, ['sldNum', 'sldImg', 'hdr', 'ftr', 'dt']) : '';
+    if (notesText) section += `\n\nSpeaker notes:\n${notesText}`;
+
+    sections.push(section.trim());
+  }
+  return sections.join('\n\n');
+};
+
+// --- Excel ---
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const cellValue = (cell: XmlNode, sharedStrings: string[]): string => {
+  const type = cell.attrs.t;
+  if (type === 'inlineStr') return findAll(cell, 't').map(textContent).join('');
+  const valueNode = findFirst(cell, 'v');
+  const raw = valueNode ? textContent(valueNode) : '';
+  if (type === 's') return sharedStrings[parseInt(raw, 10)] ?? '';
+  if (type === 'b') return raw === '1' ? 'TRUE' : 'FALSE';
+  return raw;
+};
+
+const extractXlsx = async (parts: Parts): Promise<string> => {
+  const shared = await readPart(parts, 'xl/sharedStrings.xml');
+  // Rich-text strings are split into runs; phonetic hints (rPh) are not display text
+  const sharedStrings = shared
+    ? childElements(findFirst(shared, 'sst') || shared, 'si').map(si =>
+        [...childElements(si, 't'), ...childElements(si, 'r').flatMap(r => childElements(r, 't'))]
+          .map(textContent).join(''))
+    : [];
+
+  const workbook = await readPart(parts, 'xl/workbook.xml');
+  const rels = await readRelationships(parts, 'xl/workbook.xml');
+  const sheets = workbook ? findAll(workbook, 'sheet') : [];
+
+  const sections: string[] = [];
+  for (const sheet of sheets) {
+    const path = rels.get(sheet.attrs['r:id']);
+    const sheetXml = path && await readPart(parts, path);
+    if (!sheetXml) continue;
+
+    const rows = findAll(sheetXml, 'row').map(row => {
+      const values: string[] = [];
+      childElements(row, 'c').forEach((cell, i) => {
+        const column = cell.attrs.r ? columnIndex(cell.attrs.r) : i;
+        values[column] = cellValue(cell, sharedStrings).replace(/[\t\r\n]+/g, ' ');
+      });
+      return Array.from(values, v => v ?? '').join('\t').replace(/\t+$/, '');
+    }).filter(Boolean);
+
+    if (rows.length > 0) {
+      sections.push(`## Sheet: ${sheet.attrs.name || `Sheet ${sections.length + 1}`}\n${rows.join('\n')}`);
+    }
+  }
+  return sections.join('\n\n');
+};
+
+/**
+ * Extract readable text from a .docx, .pptx or .xlsx file
+ */
+export const extractOfficeText = async (data: ArrayBuffer | Blob, format: OfficeFormat): Promise<string> => {
+  const parts = zipEntryMap(await readZip(data));
+  switch (format) {
+    case 'docx': return extractDocx(parts);
+    case 'pptx': return extractPptx(parts);
+    case 'xlsx': return extractXlsx(parts);
+  }
+};
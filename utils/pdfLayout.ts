@@ -0,0 +1,222 @@
+import { OcrPage } from "../types";
+
+/**
+ * Layout-aware reconstruction of PDF text from positioned text items.
+ * pdf.js gives us glyph runs with coordinates and font sizes; this module
+ * rebuilds lines, reading order across columns, headings, simple tables and
+ * strips running headers/footers. It has no pdf.js dependency so it can be
+ * exercised on plain data.
+ */
+
+export interface PdfTextItem {
+  str: string;
+  x: number; // left edge, PDF units
+  y: number; // baseline, measured from the bottom of the page
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfPageItems {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+  ocrText?: string; // replaces the items for scanned pages without a text layer
+}
+
+export interface PDFText {
+  text: string;
+  pageOffsets: number[]; // start offset of each page in text
+  ocrPages?: OcrPage[];
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  cells: number; // > 1 when wide gaps split the line into table cells
+}
+
+// Gap (in multiples of font size) that separates table cells rather than words
+const CELL_GAP = 1.5;
+// Lines at least this much larger than body text are treated as headings
+const HEADING_RATIO = 1.2;
+const TITLE_RATIO = 1.6;
+// How many lines at the top and bottom of each page are header/footer candidates
+const MARGIN_LINES = 2;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Group items sharing a baseline into lines, left to right
+ */
+const buildLines = (items: PdfTextItem[]): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+  sorted.forEach(item => {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  });
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    const fontSize = median(row.map(i => i.fontSize)) || 1;
+    let text = '';
+    let cells = 1;
+    let previousEnd = row[0].x;
+    row.forEach((item, i) => {
+      const gap = item.x - previousEnd;
+      if (i > 0 && item.str.trim() && gap > fontSize * CELL_GAP) {
+        text = text.trimEnd() + '\t';
+        cells++;
+      } else if (i > 0 && gap > fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+        text += ' ';
+      }
+      text += item.str;
+      previousEnd = Math.max(previousEnd, item.x + item.width);
+    });
+    return {
+      text: text.replace(/ {2,}/g, ' ').trim(),
+      x: row[0].x,
+      y: median(row.map(i => i.y)),
+      fontSize: Math.max(...row.map(i => i.fontSize)),
+      cells
+    };
+  }).filter(line => line.text.length > 0);
+};
+
+/**
+ * Find a vertical gutter splitting the page into two text columns, if any.
+ * A gutter is an x position near the middle that almost no item crosses,
+ * with a substantial share of the text on either side.
+ */
+const findGutter = (items: PdfTextItem[], pageWidth: number): number | null => {
+  const textItems = items.filter(i => i.str.trim());
+  if (textItems.length < 20 || pageWidth <= 0) return null;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += pageWidth * 0.01) {
+    const crossing = textItems.filter(i => i.x < x && i.x + i.width > x).length;
+    const left = textItems.filter(i => i.x + i.width <= x).length;
+    const right = textItems.filter(i => i.x >= x).length;
+    if (left < textItems.length * 0.25 || right < textItems.length * 0.25) continue;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+  // Allow a few full-width items such as titles and figure captions
+  return best && best.crossing <= textItems.length * 0.05 ? best.x : null;
+};
+
+/**
+ * Lines of one page in reading order. On two-column pages, full-width lines
+ * (titles, wide figures) act as separators: the left column above a separator
+ * is read before the right column, then the separator itself.
+ */
+const pageLines = (page: PdfPageItems): Line[] => {
+  const gutter = findGutter(page.items, page.width);
+  if (gutter === null) return buildLines(page.items);
+
+  const spanning = buildLines(page.items.filter(i => i.x < gutter && i.x + i.width > gutter));
+  let left = buildLines(page.items.filter(i => i.x + i.width <= gutter));
+  let right = buildLines(page.items.filter(i => i.x >= gutter));
+
+  const ordered: Line[] = [];
+  spanning.forEach(separator => {
+    ordered.push(...left.filter(l => l.y > separator.y), ...right.filter(l => l.y > separator.y), separator);
+    left = left.filter(l => l.y <= separator.y);
+    right = right.filter(l => l.y <= separator.y);
+  });
+  return [...ordered, ...left, ...right];
+};
+
+// Running headers keep their position and differ at most in page numbers
+const marginKey = (line: Line) =>
+  `${Math.round(line.y / 4)}|${line.text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()}`;
+
+const marginLines = (lines: Line[]): Set<Line> => {
+  const byHeight = [...lines].sort((a, b) => b.y - a.y);
+  return new Set([...byHeight.slice(0, MARGIN_LINES), ...byHeight.slice(-MARGIN_LINES)]);
+};
+
+/**
+ * Drop lines that repeat at the top or bottom of most pages (running
+ * headers, footers, page numbers)
+ */
+const stripRepeatedMargins = (pages: Line[][]): Line[][] => {
+  const counts = new Map<string, number>();
+  pages.forEach(lines => {
+    new Set([...marginLines(lines)].map(marginKey)).forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  const minRepeats = Math.max(3, pages.length * 0.5);
+
+  return pages.map(lines => {
+    const margins = marginLines(lines);
+    return lines.filter(line => {
+      if (!margins.has(line)) return true;
+      // A bare page number is dropped even on short documents
+      if (/^\d+$/.test(line.text.trim())) return false;
+      return (counts.get(marginKey(line)) || 0) < minRepeats;
+    });
+  });
+};
+
+/**
+ * Render lines as text: headings get markdown markers, consecutive
+ * multi-cell lines become tab-separated tables, and larger vertical gaps
+ * start new paragraphs.
+ */
+const renderPage = (lines: Line[], bodySize: number): string => {
+  const isTableRow = lines.map((line, i) =>
+    line.cells > 1 && ((lines[i - 1]?.cells ?? 0) > 1 || (lines[i + 1]?.cells ?? 0) > 1));
+  const headingLevel = lines.map((line, i) => {
+    const ratio = line.fontSize / bodySize;
+    if (isTableRow[i] || ratio < HEADING_RATIO || line.text.length > 120 || /[.:;,]$/.test(line.text)) return 0;
+    return ratio >= TITLE_RATIO ? 1 : 2;
+  });
+
+  return lines.map((line, i) => {
+    const content = headingLevel[i]
+      ? `${'#'.repeat(headingLevel[i])} ${line.text.replace(/\t/g, ' ')}`
+      : isTableRow[i] ? line.text : line.text.replace(/\t/g, ' ');
+    if (i === 0) return content;
+
+    const previous = lines[i - 1];
+    const gap = previous.y - line.y; // negative when reading order jumps to the next column
+    if (isTableRow[i] && isTableRow[i - 1]) return '\n' + content;
+    const breaksParagraph =
+      headingLevel[i] > 0 || headingLevel[i - 1] > 0 || isTableRow[i] !== isTableRow[i - 1] ||
+      gap < 0 || gap > Math.max(previous.fontSize, line.fontSize) * 1.8;
+    return (breaksParagraph ? '\n\n' : '\n') + content;
+  }).join('').trim();
+};
+
+/**
+ * Rebuild a document's text from per-page positioned items
+ */
+export const layoutPdfPages = (pages: PdfPageItems[]): PDFText => {
+  const linesPerPage = stripRepeatedMargins(pages.map(page => (page.ocrText !== undefined ? [] : pageLines(page))));
+
+  // Body size is the font size carrying the most characters
+  const sizeWeights = new Map<number, number>();
+  linesPerPage.flat().forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
+  });
+  const bodySize = [...sizeWeights].sort((a, b) => b[1] - a[1])[0]?.[0] || 1;
+
+  let text = '';
+  const pageOffsets: number[] = [];
+  linesPerPage.forEach((lines, i) => {
+    pageOffsets.push(text.length);
+    const ocrText = pages[i].ocrText;
+    text += (ocrText !== undefined ? ocrText.trim() : renderPage(lines, bodySize)) + '\n\n';
+  });
+  return { text, pageOffsets };
+};
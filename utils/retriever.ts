@@ -0,0 +1,132 @@
+import { DocumentChunk, DocumentFile } from "../types";
+import { ensureChunks } from "./chunker";
+import { BM25Index } from "./bm25Index";
+import { vectorIndex } from "./vectorIndex";
+import { MessageFilter, isFilterEmpty, matchesMessageFilter } from "./messageFilter";
+import { formatRowRanges } from "./tableQuery";
+
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  docName: string;
+  docVersion?: number; // set for documents with more than one version
+  score: number; // fused score normalized to 0-1
+  keywordRank?: number; // 1-based rank in the BM25 list, if present there
+  vectorRank?: number; // 1-based rank in the vector list, if present there
+}
+
+export const DEFAULT_TOP_K = 6;
+
+// Candidates taken from each ranker before fusion
+const CANDIDATE_POOL = 50;
+// Standard RRF damping constant; keeps a single first place from dominating
+const RRF_K = 60;
+
+/**
+ * Reciprocal rank fusion: score(id) = Σ 1 / (k + rank) over every ranking
+ * the id appears in. Works on ranks only, so BM25 and cosine scores never
+ * need to be put on the same scale.
+ */
+export const reciprocalRankFusion = (rankings: string[][], k: number = RRF_K): Map<string, number> => {
+  const fused = new Map<string, number>();
+  rankings.forEach(ranking => {
+    ranking.forEach((id, i) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + i + 1));
+    });
+  });
+  return fused;
+};
+
+let keywordIndexCache: { key: string; index: BM25Index } | null = null;
+
+/**
+ * BM25 index over the current chunk set, rebuilt only when the set changes
+ */
+const getKeywordIndex = (chunks: DocumentChunk[]): BM25Index => {
+  const key = chunks.map(c => c.id).join('|');
+  if (keywordIndexCache?.key === key) return keywordIndexCache.index;
+
+  const index = new BM25Index();
+  chunks.forEach(c => index.add(c.id, c.text));
+  keywordIndexCache = { key, index };
+  return index;
+};
+
+/**
+ * Hybrid retrieval: BM25 for exact and rare terms, vector similarity for
+ * paraphrases and concepts, merged with reciprocal rank fusion. Falls back
+ * to keyword-only ranking if the vector index is unavailable.
+ * A message filter restricts the candidates to matching mail and chat
+ * chunks; with a filter but no query text, the newest matches are returned.
+ */
+export const retrieveChunks = async (
+  documents: DocumentFile[],
+  query: string,
+  k: number = DEFAULT_TOP_K,
+  filter: MessageFilter = {}
+): Promise<RetrievedChunk[]> => {
+  const filtered = !isFilterEmpty(filter);
+  if (!query.trim() && !filtered) return [];
+
+  const docs = ensureChunks(documents);
+  const chunkById = new Map<string, { chunk: DocumentChunk; docName: string; docVersion?: number }>();
+  docs.forEach(doc => (doc.chunks || []).forEach(chunk => {
+    if (matchesMessageFilter(chunk, filter)) {
+      chunkById.set(chunk.id, { chunk, docName: doc.path || doc.name, docVersion: doc.version });
+    }
+  }));
+  if (chunkById.size === 0) return [];
+
+  if (!query.trim()) {
+    return Array.from(chunkById.values())
+      .sort((a, b) => (b.chunk.lastDate ?? 0) - (a.chunk.lastDate ?? 0))
+      .slice(0, k)
+      .map(entry => ({ ...entry, score: 1 }));
+  }
+
+  const keywordRanking = getKeywordIndex(Array.from(chunkById.values()).map(c => c.chunk))
+    .search(query, CANDIDATE_POOL)
+    .map(m => m.id);
+
+  let vectorRanking: string[] = [];
+  try {
+    vectorRanking = (await vectorIndex.query(query, CANDIDATE_POOL, docs.map(d => d.id)))
+      .map(m => m.chunkId)
+      .filter(id => chunkById.has(id));
+  } catch (error) {
+    console.warn('[Retriever] Vector search unavailable, using keyword ranking only:', error);
+  }
+
+  const rankings = [keywordRanking, vectorRanking].filter(r => r.length > 0);
+  const fused = reciprocalRankFusion(rankings);
+  // Best possible fused score: first place in every ranking that returned results
+  const maxScore = rankings.length / (RRF_K + 1);
+
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k)
+    .map(([id, score]) => {
+      const keywordRank = keywordRanking.indexOf(id);
+      const vectorRank = vectorRanking.indexOf(id);
+      return {
+        ...chunkById.get(id)!,
+        score: score / maxScore,
+        keywordRank: keywordRank >= 0 ? keywordRank + 1 : undefined,
+        vectorRank: vectorRank >= 0 ? vectorRank + 1 : undefined
+      };
+    });
+};
+
+/**
+ * Render retrieved chunks as the numbered context block sent alongside a
+ * question. The model cites excerpts by these numbers.
+ */
+export const formatContext = (retrieved: RetrievedChunk[]): string =>
+  retrieved
+    .map((r, i) => {
+      const lines = r.chunk.startLine ? `:${r.chunk.startLine}-${r.chunk.endLine}` : '';
+      const section = r.chunk.section || r.chunk.symbol ? ` › ${r.chunk.section || r.chunk.symbol}` : '';
+      const location = r.chunk.page ? ` (page ${r.chunk.page})` : r.chunk.rows ? ` (${formatRowRanges(r.chunk.rows)})` : '';
+      const version = r.docVersion ? ` [version ${r.docVersion}]` : '';
+      return `[${i + 1}] SOURCE: ${r.docName}${version}${lines}${section}${location}\n${r.chunk.text.trim()}`;
+    })
+    .join('\n\n');
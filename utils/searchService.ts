@@ -1,4 +1,9 @@
 import { DocumentFile } from "../types";
+import { retrieveChunks } from "./retriever";
+import { MessageFilter, isFilterEmpty, mergeFilters, parseMessageFilter } from "./messageFilter";
+
+// Chunks retrieved per search before grouping them by document
+const SEARCH_POOL_SIZE = 30;
 
 export interface SearchResult {
   docId: string;
@@ -6,6 +11,7 @@ export interface SearchResult {
   matchCount: number;
   snippets: string[];
   relevanceScore: number;
+  matchOffset: number; // position of the best match in the document
 }
 
 export interface DocumentTag {
@@ -16,80 +22,106 @@ export interface DocumentTag {
 
 export class SearchService {
   /**
-   * Full-text search across documents
-   * Returns documents with keyword matches and snippet previews
+   * Hybrid search across documents (BM25 + semantic, fused by rank)
+   * Returns documents ranked by their best chunk, with snippet previews.
+   * from:/after:/before: operators in the query narrow mail and chat
+   * results, as does an explicit message filter.
    */
-  static searchDocuments(
+  static async searchDocuments(
     documents: DocumentFile[],
-    query: string,
-    tags?: string[]
-  ): SearchResult[] {
-    if (!query.trim()) return [];
+    rawQuery: string,
+    tags?: string[],
+    messageFilter: MessageFilter = {}
+  ): Promise<SearchResult[]> {
+    const parsed = parseMessageFilter(rawQuery);
+    const query = parsed.text;
+    const filter = mergeFilters(parsed.filter, messageFilter);
+    if (!query.trim() && isFilterEmpty(filter)) return [];
+
+    const candidates = documents.filter((doc) => {
+      // Filter by tags if provided
+      if (!tags || tags.length === 0) return true;
+      const docTags = this.getDocumentTags(doc.id);
+      return tags.some(tag => docTags.some(dt => dt.name === tag));
+    });
 
-    const results: SearchResult[] = [];
+    const retrieved = await retrieveChunks(candidates, query, SEARCH_POOL_SIZE, filter);
     const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
+    const results: SearchResult[] = [];
 
-    documents.forEach((doc) => {
-      // Filter by tags if provided
-      const docTags = this.getDocumentTags(doc.id);
-      if (tags && tags.length > 0) {
-        const hasMatchingTag = tags.some(tag => docTags.some(dt => dt.name === tag));
-        if (!hasMatchingTag) return;
-      }
+    candidates.forEach((doc) => {
+      const hits = retrieved.filter(r => r.chunk.docId === doc.id);
+      if (hits.length === 0) return;
 
       const content = doc.content.toLowerCase();
-      let matchCount = 0;
-      const matchPositions: number[] = [];
-
-      // Count and find all matches
-      queryTerms.forEach((term) => {
-        const regex = new RegExp(term, 'g');
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-          matchCount++;
-          matchPositions.push(match.index);
-        }
+      const matchCount = queryTerms.reduce((count, term) => count + this.countOccurrences(content, term), 0);
+
+      // Center snippets on the first query term inside each matching chunk,
+      // or on the chunk start for purely semantic matches
+      const matchPositions = hits.map(({ chunk }) => {
+        const chunkText = chunk.text.toLowerCase();
+        const offsets = queryTerms.map(t => chunkText.indexOf(t)).filter(i => i >= 0);
+        return chunk.start + (offsets.length > 0 ? Math.min(...offsets) : 0);
+      });
+      const snippets = this.extractSnippets(doc.content, matchPositions, 150);
+
+      // Relevance score (0-100) from the best fused chunk score
+      const relevanceScore = Math.round(Math.min(1, hits[0].score) * 100);
+
+      results.push({
+        docId: doc.id,
+        docName: doc.name,
+        matchCount,
+        snippets,
+        relevanceScore,
+        matchOffset: matchPositions[0]
       });
-
-      if (matchCount > 0) {
-        // Extract snippets around matches
-        const snippets = this.extractSnippets(doc.content, matchPositions, 150);
-        
-        // Calculate relevance score (0-100)
-        const relevanceScore = Math.min(100, (matchCount / queryTerms.length) * 25);
-
-        results.push({
-          docId: doc.id,
-          docName: doc.name,
-          matchCount,
-          snippets,
-          relevanceScore
-        });
-      }
     });
 
     // Sort by relevance score
     return results.sort((a, b) => b.relevanceScore - a.relevanceScore);
   }
 
+  /**
+   * Count literal, non-overlapping occurrences of a term
+   */
+  private static countOccurrences(text: string, term: string): number {
+    let count = 0;
+    let index = text.indexOf(term);
+    while (index !== -1) {
+      count++;
+      index = text.indexOf(term, index + term.length);
+    }
+    return count;
+  }
+
   /**
    * Highlight keywords in text with HTML markup
+   * The text is HTML-escaped first, so document content cannot inject markup
    */
   static highlightKeywords(text: string, query: string): string {
-    if (!query.trim()) return text;
-
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
-    let highlightedText = text;
-
-    queryTerms.forEach((term) => {
-      const regex = new RegExp(`(${term})`, 'gi');
-      highlightedText = highlightedText.replace(
-        regex,
-        '<mark style="background-color: #fbbf24; padding: 2px 4px; border-radius: 3px;">$1</mark>'
-      );
-    });
+    const escapedText = this.escapeHtml(text);
+    if (!query.trim()) return escapedText;
+
+    // One pass over all terms, longest first, so inserted markup is never re-matched
+    const pattern = query.toLowerCase().split(/\s+/)
+      .filter(t => t.length > 0)
+      .sort((a, b) => b.length - a.length)
+      .map(term => this.escapeHtml(term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|');
+
+    return escapedText.replace(
+      new RegExp(`(${pattern})`, 'gi'),
+      '<mark style="background-color: #fbbf24; padding: 2px 4px; border-radius: 3px;">$1</mark>'
+    );
+  }
 
-    return highlightedText;
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
 
   /**
@@ -138,6 +170,17 @@ export class SearchService {
     localStorage.setItem(`doc_tags_${docId}`, JSON.stringify(filtered));
   }
 
+  /**
+   * Replace a document's tags, e.g. when it is copied or imported
+   */
+  static setDocumentTags(docId: string, tags: DocumentTag[]): void {
+    if (tags.length > 0) {
+      localStorage.setItem(`doc_tags_${docId}`, JSON.stringify(tags));
+    } else {
+      localStorage.removeItem(`doc_tags_${docId}`);
+    }
+  }
+
   /**
    * Get all tags for a document
    */
@@ -0,0 +1,78 @@
+/**
+ * Settings Service - Model and provider configuration for the workspace
+ * The open workspace's settings are held in memory and saved with the
+ * workspace; the user's defaults for new workspaces live in localStorage
+ */
+
+import { ProviderSettings } from '../services/llmProvider';
+import { OcrLanguage } from './ocr';
+
+export interface WorkspaceSettings extends ProviderSettings {
+  verifyWithModel: boolean; // ask the model to check claims lexical overlap could not confirm
+  ocrLanguage: OcrLanguage; // 'auto' detects the language of each scanned document
+}
+
+export const DEFAULT_SETTINGS: WorkspaceSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  temperature: 0.2, // Lower temperature for more factual RAG responses
+  embeddingModel: 'text-embedding-004',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  verifyWithModel: false,
+  ocrLanguage: 'auto'
+};
+
+class SettingsServiceClass {
+  private storageKeyPrefix = 'gemini-rag-settings-user-';
+  private workspaceSettings: WorkspaceSettings | null = null;
+
+  /**
+   * Get workspace-specific storage key
+   */
+  private getStorageKey(): string {
+    const userId = localStorage.getItem('currentUserId') || 'default';
+    return `${this.storageKeyPrefix}${userId}`;
+  }
+
+  /**
+   * Use a workspace's own settings; undefined falls back to the user's defaults
+   */
+  setWorkspaceSettings(settings?: WorkspaceSettings): void {
+    this.workspaceSettings = settings ? { ...DEFAULT_SETTINGS, ...settings } : null;
+  }
+
+  /**
+   * Get settings, filling in defaults for anything not yet saved
+   */
+  getSettings(): WorkspaceSettings {
+    if (this.workspaceSettings) return { ...this.workspaceSettings };
+
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      if (stored) {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to parse settings:', error);
+    }
+
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  /**
+   * Save settings for the open workspace; they also become the defaults
+   * for workspaces created later
+   */
+  saveSettings(settings: WorkspaceSettings): void {
+    this.workspaceSettings = { ...settings };
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsServiceClass();
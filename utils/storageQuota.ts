@@ -0,0 +1,41 @@
+/**
+ * Browser storage usage. IndexedDB shares one per-origin quota, so large
+ * documents and their original files can exhaust it.
+ */
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number;
+}
+
+// Above this share of the quota the user is asked to free up space
+export const NEARLY_FULL_RATIO = 0.9;
+
+export const STORAGE_FULL_MESSAGE = 'Browser storage is full. Free up space under Storage in the sidebar, then try again.';
+
+/**
+ * Current usage and quota, or null where the browser does not report them
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+export const isNearlyFull = (usage: StorageUsage): boolean => usage.usage / usage.quota >= NEARLY_FULL_RATIO;
+
+/**
+ * Whether a failed write ran out of quota
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Ask the browser not to evict our data under storage pressure. Browsers
+ * may grant this silently, prompt, or refuse.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
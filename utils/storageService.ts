@@ -1,17 +1,45 @@
 import { DocumentFile, Message } from '../types';
-
-interface SessionData {
+import { DB_NAME, DB_VERSION, STORES, upgradeSchema } from './database';
+import { generateId } from './fileProcessor';
+import { WorkspaceSettings } from './settingsService';
+import { documentStore, StoredDocument, stripBody } from './documentStore';
+import { Conversation, createConversation } from './conversations';
+
+/**
+ * A named project: its own documents, conversations and model settings.
+ * Workspaces live in the IndexedDB sessions store, one record each; the
+ * document bodies they reference are kept in the documentStore.
+ */
+export interface Workspace {
   id: string;
   userId: string;
-  documents: DocumentFile[];
-  messages: Message[];
-  timestamp: number;
   name: string;
+  documents: StoredDocument[]; // full documents are accepted and stripped on save
+  conversations: Conversation[];
+  activeConversationId?: string; // the conversation open in the chat
+  settings?: WorkspaceSettings; // unset until changed; the user's defaults apply
+  createdAt: number;
+  timestamp: number; // last saved
+  archived?: boolean; // hidden from the switcher's main list
 }
 
+// Records saved before workspaces had several conversations
+type StoredWorkspace = Omit<Workspace, 'conversations'> & { conversations?: Conversation[]; messages?: Message[] };
+
+export const DEFAULT_WORKSPACE_NAME = 'My Workspace';
+
+/**
+ * Bring older records up to date: a single message list becomes the
+ * workspace's first conversation
+ */
+const upgradeWorkspace = ({ messages, ...record }: StoredWorkspace): Workspace => ({
+  ...record,
+  conversations: record.conversations || (messages && messages.length > 0 ? [createConversation(messages)] : [])
+});
+
 class StorageService {
-  private dbName = 'gemini-rag-navigator';
-  private storeName = 'sessions';
+  private dbName = DB_NAME;
+  private storeName = STORES.sessions;
   private db: IDBDatabase | null = null;
   
   private getCurrentUserId(): string {
@@ -36,12 +64,12 @@ class StorageService {
     }
 
     return new Promise((resolve, reject) => {
-      console.log('[StorageService.init] Opening database:', this.dbName, 'version 4');
+      console.log('[StorageService.init] Opening database:', this.dbName, 'version', DB_VERSION);
       
       let timeoutId: ReturnType<typeof setTimeout>;
       const cleanup = () => clearTimeout(timeoutId);
 
-      const request = indexedDB.open(this.dbName, 4);
+      const request = indexedDB.open(this.dbName, DB_VERSION);
 
       // Set a timeout to detect hanging
       timeoutId = setTimeout(() => {
@@ -63,166 +91,134 @@ class StorageService {
         cleanup();
         console.log('[StorageService.init] ✅ Database opened successfully');
         this.db = request.result;
+        // A newer version is opening in another tab; step aside so it can upgrade
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         console.log('[StorageService.init] Object stores available:', Array.from(this.db.objectStoreNames));
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        console.log('[StorageService.init] 🔄 onupgradeneeded fired (old version -> version 4)');
+        console.log(`[StorageService.init] 🔄 onupgradeneeded fired (old version -> version ${DB_VERSION})`);
         const db = (event.target as IDBOpenDBRequest).result;
         
-        // Create or ensure sessions object store exists
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          console.log('[StorageService.init] 📝 Creating new object store:', this.storeName);
-          try {
-            const objectStore = db.createObjectStore(this.storeName, { keyPath: 'id' });
-            objectStore.createIndex('timestamp', 'timestamp', { unique: false });
-            objectStore.createIndex('userId', 'userId', { unique: false });
-            console.log('[StorageService.init] ✅ Created sessions object store with indexes');
-          } catch (e) {
-            console.error('[StorageService.init] ❌ Error creating object store:', e);
-          }
-        } else {
-          console.log('[StorageService.init] ℹ️  Sessions object store already exists');
+        try {
+          upgradeSchema(db);
+          console.log('[StorageService.init] ✅ Object stores ready:', Array.from(db.objectStoreNames));
+        } catch (e) {
+          console.error('[StorageService.init] ❌ Error upgrading schema:', e);
         }
       };
     });
   }
 
   /**
-   * Save session using localStorage as fallback (simpler and more reliable)
+   * Run one request against the workspace store
    */
-  async saveSession(documents: DocumentFile[], messages: Message[]): Promise<void> {
-    const userId = this.getCurrentUserId();
-    const sessionKey = `session_${userId}_current`;
-    
-    console.log('[StorageService] 💾 SAVING SESSION TO LOCALSTORAGE:');
-    console.log('  - Session Key:', sessionKey);
-    console.log('  - User ID:', userId);
-    console.log('  - Documents:', documents.length);
-    console.log('  - Messages:', messages.length);
-
-    try {
-      const sessionData = {
-        id: sessionKey,
-        userId,
-        documents,
-        messages,
-        timestamp: Date.now(),
-        name: `Session - ${new Date().toLocaleString()}`
-      };
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    if (!this.db) await this.init();
 
-      localStorage.setItem(sessionKey, JSON.stringify(sessionData));
-      console.log('[StorageService] ✅ Session saved to localStorage');
-    } catch (error) {
-      console.error('[StorageService] ❌ Error saving session:', error);
-      throw error;
-    }
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], mode);
+      const request = run(transaction.objectStore(this.storeName));
+      request.onerror = () => reject(request.error);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(request.result as T);
+    });
   }
 
   /**
-   * Load session from localStorage (simple and reliable fallback)
+   * Id of the workspace the current user last had open
    */
-  async loadSession(): Promise<SessionData | null> {
-    const userId = this.getCurrentUserId();
-    if (!userId) {
-      console.log('[StorageService] ❌ No user ID available');
-      return null;
-    }
-
-    const sessionKey = `session_${userId}_current`;
-    console.log('[StorageService] 📖 LOADING SESSION FROM LOCALSTORAGE:');
-    console.log('  - Looking for Session Key:', sessionKey);
-    console.log('  - User ID:', userId);
-
-    try {
-      const sessionJson = localStorage.getItem(sessionKey);
-      
-      if (!sessionJson) {
-        console.log('[StorageService] ❌ No session found with key:', sessionKey);
-        return null;
-      }
+  getCurrentWorkspaceId(): string | null {
+    return localStorage.getItem(`currentWorkspace_${this.getCurrentUserId()}`);
+  }
 
-      const session = JSON.parse(sessionJson) as SessionData;
-      console.log('[StorageService] ✅ Session loaded from localStorage!');
-      console.log('  - Documents:', session.documents.length);
-      console.log('  - Messages:', session.messages.length);
-      return session;
-    } catch (error) {
-      console.error('[StorageService] ❌ Error loading session:', error);
-      return null;
-    }
+  setCurrentWorkspaceId(workspaceId: string): void {
+    localStorage.setItem(`currentWorkspace_${this.getCurrentUserId()}`, workspaceId);
   }
 
   /**
-   * Get all saved sessions for current user
+   * All workspaces of the current user, most recently saved first
    */
-  async getAllSessions(): Promise<SessionData[]> {
-    if (!this.db) await this.init();
-
-    if (!this.db!.objectStoreNames.contains(this.storeName)) {
-      console.log('[StorageService] Object store does not exist');
-      return [];
-    }
-
+  async listWorkspaces(): Promise<Workspace[]> {
     const userId = this.getCurrentUserId();
+    const workspaces = await this.request<StoredWorkspace[]>('readonly', store => store.index('userId').getAll(userId));
+    return workspaces.map(upgradeWorkspace).sort((a, b) => b.timestamp - a.timestamp);
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readonly');
-      const objectStore = transaction.objectStore(this.storeName);
-
-      if (!objectStore.indexNames.contains('userId')) {
-        console.log('[StorageService] userId index does not exist');
-        resolve([]);
-        return;
-      }
+  async getWorkspace(workspaceId: string): Promise<Workspace | null> {
+    const workspace = await this.request<StoredWorkspace | undefined>('readonly', store => store.get(workspaceId));
+    return workspace && workspace.userId === this.getCurrentUserId() ? upgradeWorkspace(workspace) : null;
+  }
 
-      const index = objectStore.index('userId');
-      const request = index.getAll(userId);
+  async saveWorkspace(workspace: Workspace): Promise<Workspace> {
+    const saved = { ...workspace, documents: workspace.documents.map(stripBody), timestamp: Date.now() };
+    await this.request('readwrite', store => store.put(saved));
+    console.log(`[StorageService] 💾 Saved workspace "${saved.name}" (${saved.documents.length} docs, ${saved.conversations.length} conversations)`);
+    return saved;
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        const sessions = request.result as SessionData[];
-        // Sort by timestamp descending (newest first)
-        resolve(sessions.sort((a, b) => b.timestamp - a.timestamp));
-      };
+  async createWorkspace(name: string, content: Partial<Pick<Workspace, 'documents' | 'conversations' | 'activeConversationId' | 'settings'>> = {}): Promise<Workspace> {
+    const now = Date.now();
+    return this.saveWorkspace({
+      id: generateId(),
+      userId: this.getCurrentUserId(),
+      name,
+      documents: content.documents || [],
+      conversations: content.conversations || [],
+      activeConversationId: content.activeConversationId,
+      settings: content.settings,
+      createdAt: now,
+      timestamp: now
     });
   }
 
   /**
-   * Delete a specific session
+   * Apply changes to a stored workspace, e.g. a new name or archived flag
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    if (!this.db) await this.init();
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readwrite');
-      const objectStore = transaction.objectStore(this.storeName);
-      const request = objectStore.delete(sessionId);
+  async updateWorkspace(workspaceId: string, changes: Partial<Pick<Workspace, 'name' | 'archived'>>): Promise<Workspace> {
+    const workspace = await this.getWorkspace(workspaceId);
+    if (!workspace) throw new Error('Workspace not found');
+    return this.saveWorkspace({ ...workspace, ...changes });
+  }
 
-      transaction.onerror = () => reject(transaction.error);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(workspaceId));
+    console.log('[StorageService] 🗑️ Deleted workspace', workspaceId);
   }
 
   /**
-   * Clear all sessions for current user (complete reset)
+   * Open the workspace the user last worked in, falling back to the most
+   * recent unarchived one. A first workspace is created when there is none,
+   * taking over the single session older versions kept in localStorage.
    */
-  /**
-   * Clear all sessions for current user
-   */
-  async clearAllSessions(): Promise<void> {
-    const userId = this.getCurrentUserId();
-    const sessionKey = `session_${userId}_current`;
-
-    try {
-      localStorage.removeItem(sessionKey);
-      console.log('[StorageService] ✅ Session cleared from localStorage');
-    } catch (error) {
-      console.error('[StorageService] ❌ Error clearing session:', error);
-      throw error;
+  async openCurrentWorkspace(): Promise<Workspace> {
+    const workspaces = await this.listWorkspaces();
+    const currentId = this.getCurrentWorkspaceId();
+    let workspace = workspaces.find(w => w.id === currentId && !w.archived) || workspaces.find(w => !w.archived);
+
+    if (!workspace) {
+      const legacyKey = `session_${this.getCurrentUserId()}_current`;
+      const legacy = localStorage.getItem(legacyKey);
+      const session = legacy ? JSON.parse(legacy) as { documents?: DocumentFile[]; messages?: Message[] } : null;
+      for (const doc of session?.documents || []) {
+        await documentStore.save(doc);
+      }
+      workspace = await this.createWorkspace(DEFAULT_WORKSPACE_NAME, {
+        documents: session?.documents || [],
+        conversations: session?.messages?.length ? [createConversation(session.messages)] : []
+      });
+      if (legacy) {
+        localStorage.removeItem(legacyKey);
+        console.log('[StorageService] ✅ Migrated the localStorage session into a workspace');
+      }
     }
+
+    this.setCurrentWorkspaceId(workspace.id);
+    return workspace;
   }
 
   /**
@@ -246,11 +242,11 @@ class StorageService {
       const request = objectStore.getAll();
 
       request.onsuccess = () => {
-        const allSessions = request.result as SessionData[];
-        console.log('=== ALL SESSIONS IN DATABASE ===');
-        console.log(`Total sessions: ${allSessions.length}`);
+        const allSessions = (request.result as StoredWorkspace[]).map(upgradeWorkspace);
+        console.log('=== ALL WORKSPACES IN DATABASE ===');
+        console.log(`Total workspaces: ${allSessions.length}`);
         allSessions.forEach(session => {
-          console.log(`Session ID: ${session.id}, User: ${session.userId}, Docs: ${session.documents.length}, Messages: ${session.messages.length}`);
+          console.log(`Workspace ID: ${session.id}, Name: ${session.name}, User: ${session.userId}, Docs: ${session.documents.length}, Conversations: ${session.conversations.length}`);
         });
         console.log('================================');
         resolve();
@@ -350,14 +346,16 @@ class StorageService {
     totalMessages: number;
     lastSavedAt: string;
   }> {
-    const sessions = await this.getAllSessions();
+    const sessions = await this.listWorkspaces();
 
     let totalDocuments = 0;
     let totalMessages = 0;
 
     sessions.forEach(session => {
       totalDocuments += session.documents.length;
-      totalMessages += session.messages.length;
+      session.conversations.forEach(conversation => {
+        totalMessages += conversation.messages.length;
+      });
     });
 
     const lastSession = sessions[0];
@@ -0,0 +1,157 @@
+/**
+ * Lightweight syntax highlighting for code blocks in answers: comments,
+ * strings, numbers and keywords for the languages models write most.
+ * Unknown languages come back as a single plain token.
+ */
+
+export type CodeTokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+interface Grammar {
+  comments: string[]; // regex sources, line and block
+  strings: string[];
+  keywords: string[];
+  literals: string[];
+}
+
+const C_COMMENTS = ['//[^\\n]*', '/\\*[\\s\\S]*?(?:\\*/|$)'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+const DOUBLE = '"(?:[^"\\\\\\n]|\\\\.)*"?';
+const SINGLE = "'(?:[^'\\\\\\n]|\\\\.)*'?";
+
+const JS_KEYWORDS = ['as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE, '`(?:[^`\\\\]|\\\\.)*`?'],
+    keywords: JS_KEYWORDS,
+    literals: ['true', 'false', 'null', 'undefined', 'this', 'super']
+  },
+  python: {
+    comments: HASH_COMMENTS,
+    strings: ['"""[\\s\\S]*?(?:"""|$)', "'''[\\s\\S]*?(?:'''|$)", DOUBLE, SINGLE],
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'],
+    literals: ['True', 'False', 'None', 'self']
+  },
+  go: {
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE, '`[^`]*`?'],
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'],
+    literals: ['true', 'false', 'nil', 'iota']
+  },
+  java: {
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE],
+    keywords: ['abstract', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do', 'else', 'enum', 'extends', 'final', 'finally', 'for', 'if', 'implements', 'import', 'instanceof', 'interface', 'new', 'package', 'private', 'protected', 'public', 'return', 'static', 'switch', 'synchronized', 'throw', 'throws', 'try', 'var', 'void', 'while', 'int', 'long', 'double', 'float', 'boolean', 'char', 'byte', 'short'],
+    literals: ['true', 'false', 'null', 'this', 'super']
+  },
+  c: {
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE],
+    keywords: ['auto', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else', 'enum', 'extern', 'float', 'for', 'goto', 'if', 'include', 'define', 'inline', 'int', 'long', 'namespace', 'new', 'private', 'public', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'template', 'typedef', 'union', 'unsigned', 'using', 'void', 'volatile', 'while'],
+    literals: ['true', 'false', 'NULL', 'nullptr', 'this']
+  },
+  rust: {
+    comments: C_COMMENTS,
+    strings: [DOUBLE],
+    keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static', 'struct', 'trait', 'type', 'unsafe', 'use', 'where', 'while'],
+    literals: ['true', 'false', 'self', 'Self', 'None', 'Some', 'Ok', 'Err']
+  },
+  shell: {
+    comments: HASH_COMMENTS,
+    strings: [DOUBLE, "'[^']*'?"],
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'function', 'in', 'export', 'local', 'return', 'echo', 'cd', 'sudo'],
+    literals: ['true', 'false']
+  },
+  sql: {
+    comments: ['--[^\\n]*', '/\\*[\\s\\S]*?(?:\\*/|$)'],
+    strings: [SINGLE, DOUBLE],
+    keywords: ['select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'as', 'distinct', 'union', 'case', 'when', 'then', 'else', 'end', 'in', 'is', 'like', 'between', 'primary', 'key', 'index', 'with'],
+    literals: ['null', 'true', 'false']
+  },
+  json: {
+    comments: [],
+    strings: [DOUBLE],
+    keywords: [],
+    literals: ['true', 'false', 'null']
+  },
+  yaml: {
+    comments: HASH_COMMENTS,
+    strings: [DOUBLE, SINGLE],
+    keywords: [],
+    literals: ['true', 'false', 'null', 'yes', 'no']
+  },
+  css: {
+    comments: ['/\\*[\\s\\S]*?(?:\\*/|$)'],
+    strings: [DOUBLE, SINGLE],
+    keywords: ['important', 'media', 'import', 'keyframes'],
+    literals: []
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript', mjs: 'javascript',
+  py: 'python', golang: 'go', kotlin: 'java', kt: 'java', 'c#': 'java', cs: 'java', csharp: 'java',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cc: 'c', rs: 'rust',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', postgres: 'sql', mysql: 'sql', sqlite: 'sql',
+  yml: 'yaml', scss: 'css', less: 'css'
+};
+
+const compiled = new Map<string, { pattern: RegExp; keywords: Set<string>; literals: Set<string>; caseless: boolean }>();
+
+const grammarFor = (lang: string) => {
+  const name = ALIASES[lang] || lang;
+  const grammar = GRAMMARS[name];
+  if (!grammar) return null;
+  if (!compiled.has(name)) {
+    const parts = [
+      grammar.comments.length ? `(${grammar.comments.join('|')})` : '(?!)',
+      `(${grammar.strings.join('|')})`,
+      '(\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[\\da-f]+\\b)',
+      '([A-Za-z_$][\\w$]*)'
+    ];
+    compiled.set(name, {
+      pattern: new RegExp(parts.join('|'), 'gi'),
+      keywords: new Set(grammar.keywords),
+      literals: new Set(grammar.literals),
+      caseless: name === 'sql'
+    });
+  }
+  return compiled.get(name)!;
+};
+
+/**
+ * Split code into highlighted tokens
+ */
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const grammar = grammarFor(lang.toLowerCase());
+  if (!grammar) return [{ kind: 'plain', text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let cursor = 0;
+  for (const match of code.matchAll(grammar.pattern)) {
+    if (match.index! > cursor) push('plain', code.slice(cursor, match.index));
+    const [text, comment, string, number, word] = match;
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (number) push('number', text);
+    else if (word) {
+      const key = grammar.caseless ? word.toLowerCase() : word;
+      push(grammar.keywords.has(key) ? 'keyword' : grammar.literals.has(key) ? 'literal' : 'plain', text);
+    } else push('plain', text);
+    cursor = match.index! + text.length;
+  }
+  if (cursor < code.length) push('plain', code.slice(cursor));
+  return tokens;
+};
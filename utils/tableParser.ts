@@ -0,0 +1,275 @@
+import { ColumnType, TableCell, TableColumn, TableSchema } from "../types";
+import { parseYaml, YamlValue } from "./yamlParser";
+
+/**
+ * CSV, JSON and YAML into a typed table. Arrays of records become rows with
+ * one column per (dot-flattened) field; any other JSON or YAML is flattened
+ * into path/value records. Worker-safe.
+ */
+
+export interface ParsedTable {
+  schema: TableSchema;
+  rows: TableCell[][];
+  text: string; // rendered content, one line per row
+}
+
+// Rows beyond this are still stored and queryable, but not rendered for search
+export const MAX_RENDERED_ROWS = 5000;
+
+/**
+ * RFC 4180 style records: quoted fields may hold delimiters, newlines and
+ * doubled quotes
+ */
+export const parseDelimited = (source: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = source.replace(/^﻿/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(f => f.trim() !== ''));
+};
+
+/**
+ * Pick the delimiter that splits the first lines most consistently
+ */
+const sniffDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/, 10).filter(line => line.trim());
+  let best = ',';
+  let bestScore = 0;
+  for (const candidate of [',', '\t', ';', '|']) {
+    const counts = sample.map(line => line.split(candidate).length - 1);
+    if (counts[0] === 0) continue;
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * 100 + counts[0];
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const NUMBER = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][-+]?\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
+
+const looksLikeNumber = (value: string): boolean => /\d/.test(value) && NUMBER.test(value);
+
+const looksLikeDate = (value: string): boolean =>
+  (ISO_DATE.test(value) || SLASH_DATE.test(value)) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Column type that fits every non-empty value
+ */
+const inferType = (values: string[]): ColumnType => {
+  const present = values.map(v => v.trim()).filter(v => v !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(looksLikeNumber)) return 'number';
+  if (present.every(v => /^(true|false)$/i.test(v))) return 'boolean';
+  if (present.every(looksLikeDate)) return 'date';
+  return 'string';
+};
+
+const convertCell = (raw: string, type: ColumnType): TableCell => {
+  const value = raw.trim();
+  if (value === '') return null;
+  switch (type) {
+    case 'number': return Number(value.replace(/,/g, ''));
+    case 'boolean': return value.toLowerCase() === 'true';
+    default: return value; // dates stay as written and are compared via Date.parse
+  }
+};
+
+/**
+ * Unique, non-empty column names
+ */
+const columnNames = (header: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return header.map((raw, i) => {
+    const base = raw.trim() || `column_${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+const typeOfValue = (value: TableCell): ColumnType | null => {
+  if (value === null) return null;
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return looksLikeDate(value) ? 'date' : 'string';
+};
+
+/**
+ * A column's type from already-typed values; mixed columns fall back to string
+ */
+const commonType = (values: TableCell[]): ColumnType => {
+  const types = new Set(values.map(typeOfValue).filter((t): t is ColumnType => t !== null));
+  return types.size === 1 ? Array.from(types)[0] : 'string';
+};
+
+const toCell = (value: YamlValue | undefined): TableCell => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+const isRecord = (value: YamlValue): value is { [key: string]: YamlValue } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Nested fields as dotted paths; arrays index with [n]
+ */
+const flatten = (value: YamlValue, path: string, out: [string, TableCell][]): void => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) out.push([path, '[]']);
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+  } else if (isRecord(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 0) out.push([path, '{}']);
+    keys.forEach(key => flatten(value[key], path ? `${path}.${key}` : key, out));
+  } else {
+    out.push([path, toCell(value)]);
+  }
+};
+
+// Multi-line values are folded so each row stays on one line
+const formatCell = (value: TableCell): string => (value === null ? '' : String(value).replace(/\s*\n\s*/g, ' ').trim());
+
+/**
+ * Render rows as searchable text and record where each row starts
+ */
+const render = (
+  title: string,
+  kind: TableSchema['kind'],
+  columns: TableColumn[],
+  rows: TableCell[][]
+): { text: string; rowOffsets: number[] } => {
+  let text = kind === 'rows'
+    ? `${title}: ${rows.length} rows · columns: ${columns.map(c => `${c.name} (${c.type})`).join(', ')}\n\n`
+    : `${title}: ${rows.length} settings\n\n`;
+  const rowOffsets: number[] = [];
+  rows.slice(0, MAX_RENDERED_ROWS).forEach((row, i) => {
+    rowOffsets.push(text.length);
+    text += kind === 'rows'
+      ? `[row ${i + 1}] ${columns.map((c, j) => `${c.name}: ${formatCell(row[j])}`).join(' · ')}\n`
+      : `${formatCell(row[0])} = ${formatCell(row[1])}\n`;
+  });
+  if (rows.length > MAX_RENDERED_ROWS) {
+    text += `\n… ${rows.length - MAX_RENDERED_ROWS} more rows are not shown but can be queried\n`;
+  }
+  return { text, rowOffsets };
+};
+
+const buildTable = (
+  title: string,
+  format: TableSchema['format'],
+  kind: TableSchema['kind'],
+  columns: TableColumn[],
+  rows: TableCell[][]
+): ParsedTable => {
+  const { text, rowOffsets } = render(title, kind, columns, rows);
+  return { schema: { format, kind, columns, rowCount: rows.length, rowOffsets }, rows, text };
+};
+
+export const parseCsv = (source: string, name: string, delimiter?: string): ParsedTable | null => {
+  const records = parseDelimited(source, delimiter || sniffDelimiter(source));
+  if (records.length < 2 || records[0].length < 2) return null;
+
+  const names = columnNames(records[0]);
+  const body = records.slice(1).map(record => names.map((_, i) => record[i] ?? ''));
+  const columns = names.map((name, i) => ({ name, type: inferType(body.map(r => r[i])) }));
+  const rows = body.map(record => record.map((raw, i) => convertCell(raw, columns[i].type)));
+  return buildTable(name, 'csv', 'rows', columns, rows);
+};
+
+const pathsTable = (value: YamlValue, name: string, format: 'json' | 'yaml'): ParsedTable | null => {
+  const fields: [string, TableCell][] = [];
+  flatten(value, '', fields);
+  if (fields.length === 0 || (fields.length === 1 && fields[0][0] === '')) return null;
+  const columns: TableColumn[] = [
+    { name: 'path', type: 'string' },
+    { name: 'value', type: commonType(fields.map(([, cell]) => cell)) }
+  ];
+  return buildTable(name, format, 'paths', columns, fields);
+};
+
+/**
+ * Table from already-parsed JSON or YAML values. An array of records (or a
+ * single key holding one, e.g. { "items": [...] }) becomes rows; anything
+ * else becomes path/value records.
+ */
+export const tableFromValue = (value: YamlValue, name: string, format: 'json' | 'yaml'): ParsedTable | null => {
+  const keys = isRecord(value) ? Object.keys(value) : [];
+  const records = Array.isArray(value)
+    ? value
+    : keys.length === 1 && Array.isArray((value as { [key: string]: YamlValue })[keys[0]])
+      ? (value as { [key: string]: YamlValue[] })[keys[0]]
+      : null;
+  if (!records || records.length === 0 || !records.every(isRecord)) return pathsTable(value, name, format);
+
+  const flattened = records.map(record => {
+    const fields: [string, TableCell][] = [];
+    flatten(record, '', fields);
+    return new Map(fields);
+  });
+  const names = Array.from(new Set(flattened.flatMap(fields => Array.from(fields.keys()))));
+  const rows = flattened.map(fields => names.map(n => fields.get(n) ?? null));
+  const columns = names.map((n, i) => ({ name: n, type: commonType(rows.map(r => r[i])) }));
+  return buildTable(name, format, 'rows', columns, rows);
+};
+
+export const parseJsonTable = (source: string, name: string): ParsedTable | null => {
+  let value: YamlValue;
+  try {
+    value = JSON.parse(source.replace(/^﻿/, ''));
+  } catch {
+    return null;
+  }
+  return tableFromValue(value, name, 'json');
+};
+
+export const parseYamlTable = (source: string, name: string): ParsedTable | null => {
+  let documents: YamlValue[];
+  try {
+    documents = parseYaml(source);
+  } catch {
+    return null;
+  }
+  if (documents.length === 0) return null;
+  // Multi-document streams (e.g. Kubernetes manifests) are flattened with a [n] prefix per document
+  return documents.length === 1 ? tableFromValue(documents[0], name, 'yaml') : pathsTable(documents, name, 'yaml');
+};
@@ -0,0 +1,345 @@
+import { DocumentChunk, DocumentFile, RowRange, TableCell, TableColumn, TableSchema } from "../types";
+
+/**
+ * Local query engine for ingested tables. The model only plans the query
+ * (as JSON); filtering, grouping and aggregation run here on the stored
+ * rows, so numbers in the answer come from the data rather than the model.
+ */
+
+export type FilterOp = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+
+export type AggregateFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface TableFilter {
+  column: string;
+  op: FilterOp;
+  value: TableCell;
+}
+
+export interface TableAggregate {
+  fn: AggregateFn;
+  column?: string; // omitted for count(*)
+}
+
+export interface TableQuery {
+  table: string; // document name
+  filters?: TableFilter[];
+  groupBy?: string[];
+  aggregates?: TableAggregate[];
+  columns?: string[]; // projection when nothing is aggregated
+  orderBy?: { column: string; direction?: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface TableQueryResult {
+  columns: string[];
+  rows: TableCell[][];
+  sourceRows: number[]; // 1-based rows the result was computed from
+  matchedRows: number;
+  description: string;
+}
+
+export const DEFAULT_QUERY_LIMIT = 50;
+
+const FILTER_OPS: FilterOp[] = ['=', '!=', '>', '>=', '<', '<=', 'contains'];
+const AGGREGATE_FNS: AggregateFn[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+const resolveColumn = (columns: { name: string }[], name: string): number => {
+  const wanted = name.trim().toLowerCase();
+  const index = columns.findIndex(c => c.name.toLowerCase() === wanted);
+  if (index === -1) throw new Error(`Unknown column "${name}"`);
+  return index;
+};
+
+/**
+ * Comparable form of a cell: dates as epoch ms, numeric strings as numbers
+ */
+const comparable = (value: TableCell, type: TableColumn['type']): number | string | boolean | null => {
+  if (value === null) return null;
+  if (type === 'date' && typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? value : time;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return typeof value === 'string' ? value.toLowerCase() : value;
+};
+
+const compare = (a: number | string | boolean | null, b: number | string | boolean | null): number => {
+  if (a === b) return 0;
+  if (a === null) return 1; // nulls sort last
+  if (b === null) return -1;
+  if (typeof a === typeof b) return a < b ? -1 : 1;
+  return String(a).localeCompare(String(b));
+};
+
+const matchesFilter = (cell: TableCell, filter: TableFilter, type: TableColumn['type']): boolean => {
+  if (filter.op === 'contains') {
+    return cell !== null && String(cell).toLowerCase().includes(String(filter.value ?? '').toLowerCase());
+  }
+  const left = comparable(cell, type);
+  const right = comparable(filter.value, type);
+  if (filter.op === '=') return left === right;
+  if (filter.op === '!=') return left !== right;
+  if (left === null || right === null) return false;
+  const order = compare(left, right);
+  switch (filter.op) {
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    default: return order <= 0;
+  }
+};
+
+const aggregateLabel = (aggregate: TableAggregate): string =>
+  aggregate.column ? `${aggregate.fn}(${aggregate.column})` : 'count';
+
+const aggregate = (fn: AggregateFn, values: TableCell[]): TableCell => {
+  if (fn === 'count') return values.filter(v => v !== null).length;
+  const numbers = values
+    .map(v => (typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN))
+    .filter(n => !Number.isNaN(n));
+  if (numbers.length === 0) {
+    // min/max still work on text and dates
+    const present = values.filter(v => v !== null);
+    if ((fn === 'min' || fn === 'max') && present.length > 0) {
+      return present.reduce((best, v) => ((fn === 'min' ? compare(v, best) < 0 : compare(v, best) > 0) ? v : best));
+    }
+    return null;
+  }
+  switch (fn) {
+    case 'sum': return round(numbers.reduce((s, n) => s + n, 0));
+    case 'avg': return round(numbers.reduce((s, n) => s + n, 0) / numbers.length);
+    // Not Math.min(...numbers): spreading a large column overflows the call stack
+    case 'min': return numbers.reduce((m, n) => (n < m ? n : m));
+    default: return numbers.reduce((m, n) => (n > m ? n : m));
+  }
+};
+
+// Hide floating point noise such as 0.30000000000000004
+const round = (n: number): number => Math.round(n * 1e6) / 1e6;
+
+const describe = (query: TableQuery, matched: number, total: number): string => {
+  const parts: string[] = [];
+  if (query.aggregates && query.aggregates.length > 0) parts.push(query.aggregates.map(aggregateLabel).join(', '));
+  if (query.groupBy && query.groupBy.length > 0) parts.push(`grouped by ${query.groupBy.join(', ')}`);
+  if (query.filters && query.filters.length > 0) {
+    parts.push(`where ${query.filters.map(f => `${f.column} ${f.op} ${JSON.stringify(f.value)}`).join(' and ')}`);
+  }
+  if (query.orderBy) parts.push(`ordered by ${query.orderBy.column} ${query.orderBy.direction || 'asc'}`);
+  parts.push(`${matched} of ${total} rows matched`);
+  return parts.join(' · ');
+};
+
+/**
+ * Run a planned query against a table's rows. Throws on unknown columns so a
+ * bad plan is reported instead of silently returning nothing.
+ */
+export const runTableQuery = (schema: TableSchema, rows: TableCell[][], query: TableQuery): TableQueryResult => {
+  const { columns } = schema;
+  const filters = (query.filters || []).map(f => ({ ...f, index: resolveColumn(columns, f.column) }));
+  const matched: number[] = [];
+  rows.forEach((row, i) => {
+    if (filters.every(f => matchesFilter(row[f.index], f, columns[f.index].type))) matched.push(i);
+  });
+
+  const groupBy = (query.groupBy || []).map(name => resolveColumn(columns, name));
+  const aggregates = query.aggregates && query.aggregates.length > 0
+    ? query.aggregates
+    : groupBy.length > 0 ? [{ fn: 'count' as const }] : [];
+
+  let outColumns: string[];
+  let outRows: TableCell[][];
+  let sources: number[][]; // row indexes behind each output row
+
+  if (aggregates.length > 0) {
+    const aggregateColumns = aggregates.map(a => (a.column ? resolveColumn(columns, a.column) : -1));
+    const groups = new Map<string, number[]>();
+    matched.forEach(i => {
+      const key = JSON.stringify(groupBy.map(c => rows[i][c]));
+      const members = groups.get(key);
+      if (members) members.push(i);
+      else groups.set(key, [i]);
+    });
+    // An aggregate without grouping still yields one row, even over no matches
+    if (groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+    outColumns = [...groupBy.map(c => columns[c].name), ...aggregates.map(aggregateLabel)];
+    sources = Array.from(groups.values());
+    outRows = sources.map(members => [
+      ...groupBy.map(c => (members.length > 0 ? rows[members[0]][c] : null)),
+      ...aggregates.map((a, j) => aggregate(
+        a.fn,
+        members.map(i => (aggregateColumns[j] === -1 ? 1 : rows[i][aggregateColumns[j]]))
+      ))
+    ]);
+  } else {
+    const projection = query.columns && query.columns.length > 0
+      ? query.columns.map(name => resolveColumn(columns, name))
+      : columns.map((_, i) => i);
+    outColumns = ['row', ...projection.map(c => columns[c].name)];
+    sources = matched.map(i => [i]);
+    outRows = matched.map(i => [i + 1, ...projection.map(c => rows[i][c])]);
+  }
+
+  let order = outRows.map((_, i) => i);
+  if (query.orderBy) {
+    const wanted = query.orderBy.column.trim().toLowerCase();
+    let column = outColumns.findIndex(name => name.toLowerCase() === wanted);
+    if (column === -1) column = resolveColumn(outColumns.map(name => ({ name })), query.orderBy.column);
+    const sign = query.orderBy.direction === 'desc' ? -1 : 1;
+    order = order.sort((a, b) => {
+      const left = outRows[a][column];
+      const right = outRows[b][column];
+      // Keep nulls last in either direction
+      if (left === null || right === null) return compare(left, right);
+      return sign * compare(left, right);
+    });
+  }
+  order = order.slice(0, Math.max(1, query.limit || DEFAULT_QUERY_LIMIT));
+
+  const sourceRows = Array.from(new Set(order.flatMap(i => sources[i])))
+    .sort((a, b) => a - b)
+    .map(i => i + 1);
+  return {
+    columns: outColumns,
+    rows: order.map(i => outRows[i]),
+    sourceRows,
+    matchedRows: matched.length,
+    description: describe(query, matched.length, rows.length)
+  };
+};
+
+/**
+ * Collapse sorted row numbers into ranges: [3, 4, 5, 9] -> [[3, 5], [9, 9]]
+ */
+export const toRowRanges = (rowNumbers: number[]): RowRange[] => {
+  const ranges: RowRange[] = [];
+  rowNumbers.forEach(n => {
+    const last = ranges[ranges.length - 1];
+    if (last && n === last[1] + 1) last[1] = n;
+    else ranges.push([n, n]);
+  });
+  return ranges;
+};
+
+/**
+ * "rows 3–5, 9"; long lists are cut after a few ranges
+ */
+export const formatRowRanges = (ranges: RowRange[], maxRanges: number = 4): string => {
+  const shown = ranges.slice(0, maxRanges).map(([from, to]) => (from === to ? `${from}` : `${from}–${to}`));
+  const more = ranges.length > maxRanges ? ` +${ranges.length - maxRanges} more` : '';
+  const single = ranges.length === 1 && ranges[0][0] === ranges[0][1];
+  return `${single ? 'row' : 'rows'} ${shown.join(', ')}${more}`;
+};
+
+const formatCell = (value: TableCell): string =>
+  value === null ? '' : String(value).replace(/\s*\n\s*/g, ' ').trim().replace(/\|/g, '\\|');
+
+/**
+ * The query result as a retrieved excerpt, so it is numbered, cited and
+ * verified like any other. It points at the first source row in the document.
+ */
+export const queryResultChunk = (doc: DocumentFile, result: TableQueryResult): DocumentChunk => {
+  const table = [
+    `| ${result.columns.join(' | ')} |`,
+    `| ${result.columns.map(() => '---').join(' | ')} |`,
+    ...result.rows.map(row => `| ${row.map(formatCell).join(' | ')} |`)
+  ].join('\n');
+  const offsets = doc.table?.rowOffsets || [];
+  const first = result.sourceRows[0];
+  const start = first !== undefined && first <= offsets.length ? offsets[first - 1] : 0;
+  const end = first !== undefined && first < offsets.length ? offsets[first] : Math.min(doc.content.length, start + 200);
+  return {
+    id: `${doc.id}#query`,
+    docId: doc.id,
+    index: -1,
+    text: `Computed locally from ${doc.name}: ${result.description}\n\n${table}`,
+    start,
+    end,
+    section: 'Table query',
+    rows: toRowRanges(result.sourceRows)
+  };
+};
+
+// Sample rows shown to the planner per table
+const SAMPLE_ROWS = 3;
+
+/**
+ * Prompt asking the model to turn a question into one TableQuery, given the
+ * schema and a few sample rows of every table
+ */
+export const buildQueryPlanPrompt = (tables: DocumentFile[], question: string): string => {
+  const described = tables.map(doc => {
+    const schema = doc.table!;
+    const samples = schema.rowOffsets.slice(0, SAMPLE_ROWS)
+      .map((start, i) => doc.content.slice(start, schema.rowOffsets[i + 1] ?? start + 300).trim());
+    return [
+      `TABLE "${doc.name}" (${schema.rowCount} rows${schema.kind === 'paths' ? ', a config flattened into path/value records' : ''})`,
+      `COLUMNS: ${schema.columns.map(c => `${c.name} (${c.type})`).join(', ')}`,
+      'SAMPLE:',
+      ...samples
+    ].join('\n');
+  }).join('\n\n');
+
+  return `${described}
+
+QUESTION:
+${question}
+
+If the question can be answered by filtering, grouping or aggregating one of these tables, reply with a single JSON object and nothing else:
+{"table": "<table name>", "filters": [{"column": "...", "op": "= | != | > | >= | < | <= | contains", "value": ...}], "groupBy": ["..."], "aggregates": [{"fn": "count | sum | avg | min | max", "column": "..."}], "columns": ["..."], "orderBy": {"column": "...", "direction": "asc | desc"}, "limit": 20}
+Omit fields you do not need. Use exact column names. Dates are compared as dates, e.g. "2024-01-31".
+If no table query helps, reply with {"table": null}.`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Planner filters and aggregates as written, before their values are cleaned up
+const isFilter = (value: unknown): value is { column: string; op: FilterOp; value?: unknown } =>
+  isRecord(value) && typeof value.column === 'string' && FILTER_OPS.includes(value.op as FilterOp);
+
+const isAggregate = (value: unknown): value is { fn: AggregateFn; column?: unknown } =>
+  isRecord(value) && AGGREGATE_FNS.includes(value.fn as AggregateFn);
+
+/**
+ * The first JSON object in a planner response, validated. Returns null when
+ * the model declined or the plan is malformed.
+ */
+export const parseTableQuery = (response: string): TableQuery | null => {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  let plan: unknown;
+  try {
+    plan = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!isRecord(plan) || typeof plan.table !== 'string' || !plan.table.trim()) return null;
+  const { orderBy, limit } = plan;
+
+  const strings = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+  const cell = (value: unknown): TableCell =>
+    value === null || ['string', 'number', 'boolean'].includes(typeof value) ? value as TableCell : JSON.stringify(value);
+
+  return {
+    table: plan.table,
+    filters: Array.isArray(plan.filters)
+      ? plan.filters.filter(isFilter).map((f): TableFilter => ({ column: f.column, op: f.op, value: cell(f.value) }))
+      : undefined,
+    groupBy: strings(plan.groupBy),
+    aggregates: Array.isArray(plan.aggregates)
+      ? plan.aggregates.filter(isAggregate).map((a): TableAggregate => ({
+        fn: a.fn,
+        column: typeof a.column === 'string' && a.column !== '*' ? a.column : undefined
+      }))
+      : undefined,
+    columns: strings(plan.columns),
+    orderBy: isRecord(orderBy) && typeof orderBy.column === 'string'
+      ? { column: orderBy.column, direction: orderBy.direction === 'desc' ? 'desc' : 'asc' }
+      : undefined,
+    limit: typeof limit === 'number' && limit > 0 ? Math.floor(limit) : undefined
+  };
+};
@@ -0,0 +1,77 @@
+import { TableCell } from "../types";
+import { openDatabase, STORES } from "./database";
+
+export interface TableRecord {
+  docId: string;
+  rows: TableCell[][];
+}
+
+/**
+ * Parsed rows of CSV, JSON and YAML documents, persisted in IndexedDB.
+ * Documents only carry the schema and a rendered prefix, so table queries
+ * load the full rows from here.
+ */
+class TableStore {
+  private cache = new Map<string, TableCell[][]>();
+
+  async save(docId: string, rows: TableCell[][]): Promise<void> {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.tables], 'readwrite');
+      transaction.objectStore(STORES.tables).put({ docId, rows } as TableRecord);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    this.cache.set(docId, rows);
+    console.log(`[TableStore] Saved ${rows.length} row(s) for ${docId}`);
+  }
+
+  /**
+   * Rows of a document, or null if none were stored
+   */
+  async load(docId: string): Promise<TableCell[][] | null> {
+    const cached = this.cache.get(docId);
+    if (cached) return cached;
+    const db = await openDatabase();
+
+    const record = await new Promise<TableRecord | undefined>((resolve, reject) => {
+      const transaction = db.transaction([STORES.tables], 'readonly');
+      const request = transaction.objectStore(STORES.tables).get(docId);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as TableRecord | undefined);
+    });
+
+    if (!record) return null;
+    this.cache.set(docId, record.rows);
+    return record.rows;
+  }
+
+  async copyDocument(fromDocId: string, toDocId: string): Promise<void> {
+    const rows = await this.load(fromDocId);
+    if (rows) await this.save(toDocId, rows);
+  }
+
+  async removeDocument(docId: string): Promise<void> {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.tables], 'readwrite');
+      transaction.objectStore(STORES.tables).delete(docId);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    this.cache.delete(docId);
+  }
+
+  async removeDocuments(docIds: string[]): Promise<void> {
+    for (const docId of docIds) {
+      await this.removeDocument(docId);
+    }
+  }
+}
+
+// Export singleton instance
+export const tableStore = new TableStore();
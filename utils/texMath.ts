@@ -0,0 +1,111 @@
+/**
+ * Just enough TeX for math in answers: symbols become Unicode, ^ and _
+ * become superscripts and subscripts, and \frac and \sqrt keep their shape.
+ * Anything unknown is shown as written, minus the backslash.
+ */
+
+export type MathNode =
+  | string
+  | { type: 'sup' | 'sub' | 'sqrt'; children: MathNode[] }
+  | { type: 'frac'; numerator: MathNode[]; denominator: MathNode[] };
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ',
+  sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠',
+  approx: '≈', equiv: '≡', sim: '∼', propto: '∝', infty: '∞', partial: '∂', nabla: '∇',
+  sum: '∑', prod: '∏', int: '∫', oint: '∮', in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', supset: '⊃',
+  cup: '∪', cap: '∩', emptyset: '∅', forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔', iff: '⇔',
+  implies: '⇒', mapsto: '↦', ldots: '…', cdots: '⋯', dots: '…', circ: '∘', degree: '°', prime: '′',
+  langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', mid: '∣', vert: '|',
+  log: 'log', ln: 'ln', exp: 'exp', sin: 'sin', cos: 'cos', tan: 'tan', lim: 'lim', max: 'max', min: 'min',
+  ',': ' ', ';': ' ', ':': ' ', '!': '', quad: '  ', qquad: '    ', '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '_': '_', '\\': '\n'
+};
+
+// Commands whose argument is shown as plain text
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'mathtt', 'operatorname', 'textbf', 'textit', 'mathbb', 'mathcal', 'boldsymbol']);
+// Sizing and spacing commands that are dropped
+const IGNORED = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'limits', 'nolimits']);
+
+/**
+ * Parse TeX into nodes for rendering
+ */
+export const parseTex = (tex: string): MathNode[] => {
+  let i = 0;
+
+  const readCommand = (): string => {
+    const name = tex.slice(i + 1).match(/^([A-Za-z]+|.)/)?.[0] || '';
+    i += 1 + name.length;
+    return name;
+  };
+
+  // One argument: a {group} or a single token
+  const readArgument = (): MathNode[] => {
+    while (tex[i] === ' ') i++;
+    if (tex[i] === '{') {
+      i++;
+      return readSequence('}');
+    }
+    if (tex[i] === '\\') return readAtom();
+    return i < tex.length ? [tex[i++]] : [];
+  };
+
+  const readRawGroup = (): string => {
+    while (tex[i] === ' ') i++;
+    if (tex[i] !== '{') return '';
+    const end = tex.indexOf('}', i);
+    const text = tex.slice(i + 1, end < 0 ? tex.length : end);
+    i = end < 0 ? tex.length : end + 1;
+    return text;
+  };
+
+  const readAtom = (): MathNode[] => {
+    const ch = tex[i];
+    if (ch === '\\') {
+      const name = readCommand();
+      if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+        return [{ type: 'frac', numerator: readArgument(), denominator: readArgument() }];
+      }
+      if (name === 'sqrt') {
+        return [{ type: 'sqrt', children: readArgument() }];
+      }
+      if (TEXT_COMMANDS.has(name)) return [readRawGroup()];
+      if (IGNORED.has(name)) return [];
+      return [SYMBOLS[name] ?? name];
+    }
+    if (ch === '^' || ch === '_') {
+      i++;
+      return [{ type: ch === '^' ? 'sup' : 'sub', children: readArgument() }];
+    }
+    if (ch === '{') {
+      i++;
+      return readSequence('}');
+    }
+    i++;
+    return [ch];
+  };
+
+  const readSequence = (until?: string): MathNode[] => {
+    const nodes: MathNode[] = [];
+    while (i < tex.length) {
+      if (until && tex[i] === until) {
+        i++;
+        break;
+      }
+      for (const node of readAtom()) {
+        // Merge adjacent text so rendering stays flat
+        if (typeof node === 'string' && typeof nodes[nodes.length - 1] === 'string') {
+          nodes[nodes.length - 1] += node;
+        } else {
+          nodes.push(node);
+        }
+      }
+    }
+    return nodes;
+  };
+
+  return readSequence();
+};
@@ -0,0 +1,141 @@
+/**
+ * Line diff between two document versions (Myers' O(ND) algorithm), grouped
+ * into hunks with surrounding context for display.
+ */
+
+export type DiffLineKind = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  oldLine?: number; // 1-based line numbers in each version
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  lines: DiffLine[];
+  skippedBefore: number; // unchanged lines hidden above this hunk
+}
+
+export interface DiffResult {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  skippedAfter: number;
+  truncated: boolean; // too many edits to align; shown as one replacement
+}
+
+// Beyond this many edits the versions are shown as a wholesale replacement
+const MAX_EDITS = 2000;
+
+/**
+ * Myers shortest edit script from a to b, as operations read front to
+ * back. Returns null when it needs more than maxEdits.
+ */
+const shortestEdit = (a: string[], b: string[], maxEdits: number): DiffLineKind[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, maxEdits); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): DiffLineKind[] => {
+  const ops: DiffLineKind[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // trace[d] holds v before step d, indexed from k = -d
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('same');
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(down ? 'added' : 'removed');
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Diff two texts line by line. Unchanged runs longer than twice the
+ * context are collapsed between hunks.
+ */
+export const diffLines = (oldText: string, newText: string, context: number = 3): DiffResult => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Common prefix and suffix are cheap to strip and usually most of a revision
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  let middle = shortestEdit(midA, midB, MAX_EDITS);
+  const truncated = middle === null;
+  middle ??= [...midA.map(() => 'removed' as const), ...midB.map(() => 'added' as const)];
+  const ops: DiffLineKind[] = [...Array(prefix).fill('same'), ...middle, ...Array(suffix).fill('same')];
+
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  ops.forEach(kind => {
+    if (kind === 'same') lines.push({ kind, text: a[oldLine], oldLine: ++oldLine, newLine: ++newLine });
+    else if (kind === 'removed') lines.push({ kind, text: a[oldLine], oldLine: ++oldLine });
+    else lines.push({ kind, text: b[newLine], newLine: ++newLine });
+  });
+
+  // Group changes with their context; changes closer than 2 * context share a hunk
+  const hunks: DiffHunk[] = [];
+  let lastShown = -1;
+  lines.forEach((line, i) => {
+    if (line.kind === 'same') return;
+    const from = Math.max(i - context, lastShown + 1);
+    const current = hunks[hunks.length - 1];
+    if (current && from <= lastShown + 1) {
+      current.lines.push(...lines.slice(lastShown + 1, i + 1));
+    } else {
+      hunks.push({ lines: lines.slice(from, i + 1), skippedBefore: from - (lastShown + 1) });
+    }
+    lastShown = i;
+    // Trailing context: up to `context` unchanged lines after the change
+    let end = i;
+    while (end + 1 < lines.length && end - i < context && lines[end + 1].kind === 'same') end++;
+    hunks[hunks.length - 1].lines.push(...lines.slice(i + 1, end + 1));
+    lastShown = end;
+  });
+
+  return {
+    hunks,
+    added: lines.filter(l => l.kind === 'added').length,
+    removed: lines.filter(l => l.kind === 'removed').length,
+    skippedAfter: lines.length - 1 - lastShown,
+    truncated
+  };
+};
@@ -0,0 +1,11 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'was', 'were',
+  'be', 'it', 'this', 'that', 'as', 'at', 'by', 'from', 'what', 'which', 'how', 'do', 'does', 'i'
+]);
+
+/**
+ * Lowercase word tokens with stop words removed. Hyphens and underscores stay
+ * inside tokens so identifiers like "XJ-200" survive as a single term.
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}_-]+/gu) || []).filter(t => !STOP_WORDS.has(t));
@@ -0,0 +1,251 @@
+import { DocumentChunk, DocumentFile } from "../types";
+import { ensureChunks } from "./chunker";
+import { tokenize } from "./tokenizer";
+import { openDatabase, STORES } from "./database";
+
+/**
+ * Turns text into vectors. Implementations must return one vector per input,
+ * in order, and use a stable `id` so stored vectors can be matched to the
+ * embedder that produced them.
+ */
+export interface Embedder {
+  id: string;
+  // Cosine similarity below which a text is unrelated to the query. Each
+  // model spreads unrelated texts differently, so this is set per embedder.
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorRecord {
+  id: string; // chunk id
+  docId: string;
+  embedderId: string;
+  vector: number[];
+}
+
+export interface VectorMatch {
+  chunkId: string;
+  docId: string;
+  score: number;
+}
+
+/**
+ * Offline embedder using feature hashing over words and word bigrams.
+ * Deterministic and dependency-free, so it also serves for testing.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly id: string;
+  // Unrelated texts only share features through hash collisions, which stay
+  // around 0.1; a shared rare word or bigram scores 0.2 and up
+  readonly minSimilarity = 0.15;
+  private dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.id = `local:hash-${dimensions}`;
+  }
+
+  private hash(feature: string): number {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      h ^= feature.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const tokens = tokenize(text);
+      const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+      features.forEach(feature => {
+        const h = this.hash(feature);
+        vector[h % this.dimensions] += (h & 0x80000000) ? -1 : 1;
+      });
+      return normalize(vector);
+    });
+  }
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Vector index over document chunks, persisted in IndexedDB.
+ * Vectors are added and removed per document so the library is never
+ * re-embedded wholesale.
+ */
+class VectorIndex {
+  private cache: Map<string, VectorRecord> | null = null;
+  private embedder: Embedder = new LocalEmbedder();
+
+  /**
+   * Swap the embedder (the RAG service sets one per provider). Vectors from a different embedder are ignored by
+   * queries and replaced the next time their document is added.
+   */
+  setEmbedder(embedder: Embedder): void {
+    this.embedder = embedder;
+  }
+
+  getEmbedder(): Embedder {
+    return this.embedder;
+  }
+
+  /**
+   * Load all stored vectors into memory once; queries then run locally
+   */
+  private async loadCache(): Promise<Map<string, VectorRecord>> {
+    if (this.cache) return this.cache;
+    const db = await openDatabase();
+
+    const records = await new Promise<VectorRecord[]>((resolve, reject) => {
+      const transaction = db.transaction([STORES.vectors], 'readonly');
+      const request = transaction.objectStore(STORES.vectors).getAll();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result as VectorRecord[]);
+    });
+
+    this.cache = new Map(records.map(r => [r.id, r]));
+    return this.cache;
+  }
+
+  private async putRecords(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.vectors], 'readwrite');
+      const store = transaction.objectStore(STORES.vectors);
+      records.forEach(r => store.put(r));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const cache = await this.loadCache();
+    records.forEach(r => cache.set(r.id, r));
+  }
+
+  /**
+   * Embed and store every chunk that is not already indexed by the
+   * current embedder. Returns the number of chunks embedded.
+   */
+  async addDocuments(docs: DocumentFile[]): Promise<number> {
+    const cache = await this.loadCache();
+    const pending: DocumentChunk[] = ensureChunks(docs)
+      .flatMap(doc => doc.chunks || [])
+      .filter(chunk => cache.get(chunk.id)?.embedderId !== this.embedder.id);
+
+    if (pending.length === 0) return 0;
+
+    const embedder = this.embedder;
+    const vectors = await embedder.embed(pending.map(c => c.text));
+    await this.putRecords(pending.map((chunk, i) => ({
+      id: chunk.id,
+      docId: chunk.docId,
+      embedderId: embedder.id,
+      vector: vectors[i]
+    })));
+
+    console.log(`[VectorIndex] Embedded ${pending.length} chunk(s) with ${embedder.id}`);
+    return pending.length;
+  }
+
+  /**
+   * Drop every vector belonging to a document
+   */
+  async removeDocument(docId: string): Promise<void> {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.vectors], 'readwrite');
+      const index = transaction.objectStore(STORES.vectors).index('docId');
+      const request = index.openKeyCursor(IDBKeyRange.only(docId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          transaction.objectStore(STORES.vectors).delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (this.cache) {
+      Array.from(this.cache.values())
+        .filter(r => r.docId === docId)
+        .forEach(r => this.cache!.delete(r.id));
+    }
+  }
+
+  async removeDocuments(docIds: string[]): Promise<void> {
+    for (const docId of docIds) {
+      await this.removeDocument(docId);
+    }
+  }
+
+  /**
+   * Every stored vector of a document, whichever embedder produced it
+   */
+  async getDocumentVectors(docId: string): Promise<VectorRecord[]> {
+    const cache = await this.loadCache();
+    return Array.from(cache.values()).filter(r => r.docId === docId);
+  }
+
+  /**
+   * Store vectors computed elsewhere, e.g. from an imported workspace
+   */
+  async putVectors(records: VectorRecord[]): Promise<void> {
+    await this.putRecords(records);
+  }
+
+  /**
+   * Store a document's vectors again under a copy of it, e.g. when a
+   * workspace is duplicated. Chunk ids follow the `${docId}#n` scheme.
+   */
+  async copyDocument(fromDocId: string, toDocId: string): Promise<void> {
+    const prefix = `${fromDocId}#`;
+    await this.putRecords((await this.getDocumentVectors(fromDocId))
+      .map(r => ({ ...r, id: `${toDocId}#${r.id.slice(prefix.length)}`, docId: toDocId })));
+  }
+
+  /**
+   * Cosine-similarity top-k over the stored vectors, optionally limited to
+   * a set of documents. Matches below the embedder's minimum similarity are
+   * left out, so a query about nothing in the library finds nothing.
+   */
+  async query(text: string, k: number, docIds?: string[]): Promise<VectorMatch[]> {
+    const cache = await this.loadCache();
+    const allowed = docIds ? new Set(docIds) : null;
+    const candidates = Array.from(cache.values()).filter(r =>
+      r.embedderId === this.embedder.id && (!allowed || allowed.has(r.docId))
+    );
+    if (candidates.length === 0) return [];
+
+    const [queryVector] = await this.embedder.embed([text]);
+
+    return candidates
+      .map(r => ({ chunkId: r.id, docId: r.docId, score: cosineSimilarity(queryVector, r.vector) }))
+      .filter(m => m.score >= this.embedder.minSimilarity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+// Export singleton instance
+export const vectorIndex = new VectorIndex();
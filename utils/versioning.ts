@@ -0,0 +1,71 @@
+import { DocumentFile } from "../types";
+
+/**
+ * Content hashing and document versions. Every version is a full document
+ * with its own id, chunks and vectors; versions share a lineage id and only
+ * the active one (not archived) is used for chat and search.
+ */
+
+/**
+ * Hex SHA-256 of a file's bytes
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Uploads with the same key are versions of one document
+export const versionKey = (doc: Pick<DocumentFile, 'name' | 'path'>): string => doc.path || doc.name;
+
+export const lineageOf = (doc: DocumentFile): string => doc.lineageId || doc.id;
+
+export const isActive = (doc: Pick<DocumentFile, 'archived'>): boolean => !doc.archived;
+
+export const activeDocuments = (docs: DocumentFile[]): DocumentFile[] => docs.filter(isActive);
+
+/**
+ * Every version of a document, newest first
+ */
+export const versionsOf = (docs: DocumentFile[], doc: DocumentFile): DocumentFile[] => {
+  const lineage = lineageOf(doc);
+  return docs
+    .filter(d => lineageOf(d) === lineage)
+    .sort((a, b) => (b.version || 1) - (a.version || 1));
+};
+
+export const findDuplicate = (docs: DocumentFile[], contentHash: string): DocumentFile | undefined =>
+  docs.find(d => d.contentHash === contentHash);
+
+/**
+ * "policy.pdf" or, for versioned documents, "policy.pdf (v3)"
+ */
+export const versionLabel = (doc: DocumentFile): string =>
+  doc.version ? `${doc.name} (v${doc.version})` : doc.name;
+
+/**
+ * Add an ingested document to the library. A document with the same name
+ * and path becomes its newest version and the active one; the earlier
+ * versions are archived.
+ */
+export const addDocumentVersion = (docs: DocumentFile[], doc: DocumentFile): DocumentFile[] => {
+  const key = versionKey(doc);
+  const previous = docs.filter(d => versionKey(d) === key);
+  if (previous.length === 0) return [...docs, doc];
+
+  const lineageId = lineageOf(previous[0]);
+  const version = Math.max(...previous.map(d => d.version || 1)) + 1;
+  return [
+    ...docs.map(d => (versionKey(d) === key ? { ...d, lineageId, version: d.version || 1, archived: true } : d)),
+    { ...doc, lineageId, version }
+  ];
+};
+
+/**
+ * Make one version the active one for chat, archiving its siblings
+ */
+export const setActiveVersion = (docs: DocumentFile[], docId: string): DocumentFile[] => {
+  const target = docs.find(d => d.id === docId);
+  if (!target) return docs;
+  const lineage = lineageOf(target);
+  return docs.map(d => (lineageOf(d) === lineage ? { ...d, archived: d.id !== docId } : d));
+};
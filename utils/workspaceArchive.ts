@@ -0,0 +1,240 @@
+import { DocumentFile, Message, TableCell } from "../types";
+import { Conversation, createConversation } from "./conversations";
+import { Workspace } from "./storageService";
+import { WorkspaceSettings } from "./settingsService";
+import { documentStore, DocumentBody, StoredDocument, stripBody } from "./documentStore";
+import { vectorIndex, VectorRecord } from "./vectorIndex";
+import { tableStore } from "./tableStore";
+import { DocumentTag, SearchService } from "./searchService";
+import { addDocumentVersion, lineageOf, versionKey, versionsOf } from "./versioning";
+import { rekeyChunkId, WorkspaceCopy } from "./workspaces";
+import { readZip, zipEntryMap } from "./zipReader";
+import { writeZip, ZipInput } from "./zipWriter";
+
+/**
+ * Portable workspace archives: a ZIP with a manifest.json (workspace
+ * name, settings, conversations and document list) and, per document, its
+ * body, original file, vectors and table rows under documents/<id>/.
+ * Used to move a workspace to another browser, share it, or back it up.
+ */
+
+export const ARCHIVE_FORMAT = 'gemini-rag-workspace';
+// Bump when the layout changes; older archives must stay importable
+// (2: several conversations instead of one message list)
+export const ARCHIVE_VERSION = 2;
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchiveDocument {
+  document: StoredDocument;
+  tags: DocumentTag[];
+  original?: string; // MIME type of documents/<id>/original, when the original was kept
+  vectors: boolean; // documents/<id>/vectors.json is present
+  rows: boolean; // documents/<id>/rows.json is present
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  workspace: {
+    name: string;
+    createdAt: number;
+    settings?: Omit<WorkspaceSettings, 'apiKey'>; // API keys never leave the browser
+    conversations: Conversation[];
+    activeConversationId?: string;
+  };
+  documents: ArchiveDocument[];
+}
+
+export interface ImportedData {
+  original?: Blob;
+  vectors: VectorRecord[];
+  rows: TableCell[][] | null;
+  tags: DocumentTag[];
+}
+
+export interface WorkspaceArchive {
+  manifest: ArchiveManifest;
+  documents: DocumentFile[]; // with bodies, under their ids at export time
+  readData(docId: string): Promise<ImportedData>;
+}
+
+// What to do with imported documents that already exist in the workspace
+export type ConflictPolicy = 'skip' | 'replace' | 'version';
+
+export interface MergePlan {
+  documents: DocumentFile[]; // the merged library
+  added: DocumentFile[]; // imported documents to store
+  removedIds: string[]; // existing documents replaced by imported ones
+  skipped: number;
+}
+
+const documentPath = (docId: string, file: string) => `documents/${docId}/${file}`;
+
+/**
+ * Pack a workspace with everything stored for its documents
+ */
+export const exportWorkspace = async (workspace: Workspace, documents: DocumentFile[]): Promise<Blob> => {
+  const files: ZipInput[] = [];
+  const entries: ArchiveDocument[] = [];
+
+  for (const doc of documents) {
+    const body: DocumentBody = { content: doc.content, chunks: doc.chunks, pageOffsets: doc.pageOffsets, sections: doc.sections, ocrPages: doc.ocrPages, messages: doc.messages, table: doc.table };
+    const original = await documentStore.loadOriginal(doc.id);
+    const vectors = await vectorIndex.getDocumentVectors(doc.id);
+    const rows = doc.table ? await tableStore.load(doc.id) : null;
+
+    files.push({ path: documentPath(doc.id, 'body.json'), data: JSON.stringify(body), date: new Date(doc.uploadDate) });
+    if (original) files.push({ path: documentPath(doc.id, 'original'), data: original, date: new Date(doc.uploadDate) });
+    if (vectors.length > 0) files.push({ path: documentPath(doc.id, 'vectors.json'), data: JSON.stringify(vectors) });
+    if (rows) files.push({ path: documentPath(doc.id, 'rows.json'), data: JSON.stringify(rows) });
+
+    entries.push({
+      document: stripBody(doc),
+      tags: SearchService.getDocumentTags(doc.id),
+      original: original ? original.type || 'application/octet-stream' : undefined,
+      vectors: vectors.length > 0,
+      rows: !!rows
+    });
+  }
+
+  let settings: ArchiveManifest['workspace']['settings'];
+  if (workspace.settings) {
+    const { apiKey, ...rest } = workspace.settings;
+    settings = rest;
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    workspace: { name: workspace.name, createdAt: workspace.createdAt, settings, conversations: workspace.conversations, activeConversationId: workspace.activeConversationId },
+    documents: entries
+  };
+
+  return writeZip([{ path: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) }, ...files]);
+};
+
+/**
+ * Open an archive and load its documents. Vectors, rows and originals are
+ * read on demand, for the documents actually imported.
+ */
+export const readWorkspaceArchive = async (file: Blob): Promise<WorkspaceArchive> => {
+  const entries = zipEntryMap(await readZip(file));
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error('Not a workspace archive (manifest.json is missing)');
+  }
+
+  const manifest = JSON.parse(await manifestEntry.text()) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a workspace archive (unknown format)');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`This archive was made by a newer version of the app (format ${manifest.version}); update to import it`);
+  }
+
+  if (manifest.version < 2) {
+    const { messages, ...rest } = manifest.workspace as typeof manifest.workspace & { messages?: Message[] };
+    manifest.workspace = { ...rest, conversations: messages?.length ? [createConversation(messages)] : [] };
+  }
+
+  const readJson = async <T>(path: string): Promise<T | null> => {
+    const entry = entries.get(path);
+    return entry ? JSON.parse(await entry.text()) as T : null;
+  };
+
+  const documents: DocumentFile[] = [];
+  for (const { document } of manifest.documents) {
+    const body = await readJson<DocumentBody>(documentPath(document.id, 'body.json'));
+    if (!body) throw new Error(`Archive is incomplete: the text of ${document.name} is missing`);
+    documents.push({ ...document, ...body });
+  }
+
+  const readData = async (docId: string): Promise<ImportedData> => {
+    const entry = manifest.documents.find(d => d.document.id === docId);
+    const originalEntry = entry?.original ? entries.get(documentPath(docId, 'original')) : undefined;
+    return {
+      original: originalEntry ? new Blob([await originalEntry.read()], { type: entry!.original }) : undefined,
+      vectors: entry?.vectors ? (await readJson<VectorRecord[]>(documentPath(docId, 'vectors.json'))) || [] : [],
+      rows: entry?.rows ? await readJson<TableCell[][]>(documentPath(docId, 'rows.json')) : null,
+      tags: entry?.tags || []
+    };
+  };
+
+  return { manifest, documents, readData };
+};
+
+/**
+ * Store the data of imported documents. `copy` maps the archive's
+ * document ids to the fresh ids they are imported under.
+ */
+export const storeImportedDocuments = async (archive: WorkspaceArchive, copy: WorkspaceCopy, documents: DocumentFile[]): Promise<void> => {
+  const archiveIds = new Map([...copy.docIds].map(([fromId, toId]) => [toId, fromId]));
+  for (const doc of documents) {
+    const data = await archive.readData(archiveIds.get(doc.id)!);
+    await documentStore.save(doc, data.original);
+    await vectorIndex.putVectors(data.vectors.map(r => ({ ...r, id: rekeyChunkId(r.id, copy.docIds), docId: doc.id })));
+    if (data.rows) await tableStore.save(doc.id, data.rows);
+    SearchService.setDocumentTags(doc.id, data.tags);
+  }
+};
+
+/**
+ * Imported documents that clash with the library: same content or the
+ * same name and path as an existing document
+ */
+export const findConflicts = (existing: DocumentFile[], imported: DocumentFile[]): DocumentFile[] => {
+  const keys = new Set(existing.map(versionKey));
+  const hashes = new Set(existing.map(d => d.contentHash).filter(Boolean));
+  return imported.filter(d => keys.has(versionKey(d)) || (!!d.contentHash && hashes.has(d.contentHash)));
+};
+
+/**
+ * Merge imported documents into a library, one version lineage at a time.
+ * A lineage that clashes with existing documents is skipped, replaces the
+ * documents it clashes with (all their versions), or is added as newer
+ * versions of them; identical content is never added twice.
+ */
+export const mergeDocuments = (existing: DocumentFile[], imported: DocumentFile[], policy: ConflictPolicy): MergePlan => {
+  let documents = existing;
+  const added: DocumentFile[] = [];
+  const removedIds: string[] = [];
+  let skipped = 0;
+
+  const lineages = new Map<string, DocumentFile[]>();
+  imported.forEach(doc => lineages.set(lineageOf(doc), [...(lineages.get(lineageOf(doc)) || []), doc]));
+
+  for (const lineage of lineages.values()) {
+    const clashes = findConflicts(documents, lineage).length > 0;
+    if (!clashes) {
+      documents = [...documents, ...lineage];
+      added.push(...lineage);
+    } else if (policy === 'skip') {
+      skipped += lineage.length;
+    } else if (policy === 'replace') {
+      const keys = new Set(lineage.map(versionKey));
+      const hashes = new Set(lineage.map(d => d.contentHash).filter(Boolean));
+      const replaced = documents
+        .filter(d => keys.has(versionKey(d)) || (!!d.contentHash && hashes.has(d.contentHash)))
+        .flatMap(d => versionsOf(documents, d).map(v => v.id));
+      removedIds.push(...new Set(replaced));
+      documents = [...documents.filter(d => !replaced.includes(d.id)), ...lineage];
+      added.push(...lineage);
+    } else {
+      // Oldest first, so the newest imported version ends up active
+      for (const doc of [...lineage].sort((a, b) => (a.version || 1) - (b.version || 1))) {
+        if (doc.contentHash && documents.some(d => d.contentHash === doc.contentHash)) {
+          skipped++;
+          continue;
+        }
+        const single = { ...doc, lineageId: undefined, version: undefined, archived: undefined };
+        documents = addDocumentVersion(documents, single);
+        added.push(documents.find(d => d.id === doc.id)!);
+      }
+    }
+  }
+
+  return { documents, added, removedIds, skipped };
+};
@@ -0,0 +1,88 @@
+import { DocumentFile, Message } from "../types";
+import { Conversation } from "./conversations";
+import { mapMessageTree } from "./branching";
+import { generateId } from "./fileProcessor";
+import { vectorIndex } from "./vectorIndex";
+import { tableStore } from "./tableStore";
+import { documentStore } from "./documentStore";
+import { SearchService } from "./searchService";
+
+/**
+ * Helpers for copying and removing a workspace's documents. Bodies,
+ * vectors and table rows are keyed by document id, so a copy gets fresh
+ * ids and its stored data is re-keyed with the returned id map.
+ */
+
+export interface WorkspaceCopy {
+  documents: DocumentFile[];
+  conversations: Conversation[];
+  docIds: Map<string, string>; // original document id -> id of its copy
+}
+
+// Chunk ids are `${docId}#n` (or `${docId}#query` for table results)
+export const rekeyChunkId = (chunkId: string, docIds: Map<string, string>): string => {
+  const hash = chunkId.indexOf('#');
+  const newDocId = hash > 0 ? docIds.get(chunkId.slice(0, hash)) : undefined;
+  return newDocId ? `${newDocId}${chunkId.slice(hash)}` : chunkId;
+};
+
+/**
+ * Copy documents and conversations under new document ids, keeping chunks,
+ * version lineages and message citations pointing at the copies.
+ * Conversation ids are only unique within a workspace and stay the same,
+ * so the active conversation carries over.
+ */
+export const copyWorkspaceContent = (documents: DocumentFile[], conversations: Conversation[]): WorkspaceCopy => {
+  const docIds = new Map(documents.map(doc => [doc.id, generateId()]));
+
+  const copiedDocuments = documents.map(doc => {
+    const id = docIds.get(doc.id)!;
+    return {
+      ...doc,
+      id,
+      lineageId: doc.lineageId ? docIds.get(doc.lineageId) || id : undefined,
+      chunks: doc.chunks?.map(chunk => ({ ...chunk, id: rekeyChunkId(chunk.id, docIds), docId: id }))
+    };
+  });
+
+  const copyMessage = (message: Message): Message => ({
+    ...message,
+    id: generateId(),
+    citations: message.citations?.map(citation => ({
+      ...citation,
+      docId: docIds.get(citation.docId) || citation.docId,
+      chunkId: rekeyChunkId(citation.chunkId, docIds)
+    }))
+  });
+
+  const copiedConversations = conversations.map(conversation => ({
+    ...conversation,
+    messages: mapMessageTree(conversation.messages, copyMessage)
+  }));
+
+  return { documents: copiedDocuments, conversations: copiedConversations, docIds };
+};
+
+/**
+ * Store the body, original file, vectors, table rows and tags of copied
+ * documents under their new ids
+ */
+export const copyDocumentData = async (copy: WorkspaceCopy): Promise<void> => {
+  const originals = new Map([...copy.docIds].map(([fromId, toId]) => [toId, fromId]));
+  for (const doc of copy.documents) {
+    const fromId = originals.get(doc.id)!;
+    await documentStore.copyDocument(fromId, doc);
+    await vectorIndex.copyDocument(fromId, doc.id);
+    await tableStore.copyDocument(fromId, doc.id);
+    SearchService.setDocumentTags(doc.id, SearchService.getDocumentTags(fromId));
+  }
+};
+
+/**
+ * Delete everything stored for documents that left the library
+ */
+export const removeDocumentData = async (docIds: string[]): Promise<void> => {
+  await vectorIndex.removeDocuments(docIds);
+  await tableStore.removeDocuments(docIds);
+  await documentStore.removeDocuments(docIds);
+};
@@ -0,0 +1,95 @@
+/**
+ * Small, tolerant XML parser for document formats (OOXML, EPUB).
+ * DOMParser is not available in Web Workers, so extraction code uses this
+ * instead to stay runnable off the main thread.
+ */
+
+export interface XmlNode {
+  name: string; // qualified name as written, e.g. "w:p"
+  attrs: Record<string, string>;
+  children: Array<XmlNode | string>;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const ATTR_PATTERN = /([^\s=/>]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+};
+
+/**
+ * Parse markup into a node tree. Unclosed tags are closed implicitly and
+ * stray closing tags are ignored, so slightly malformed input still parses.
+ * `voidElements` lists tags that never have children (for HTML).
+ */
+export const parseXml = (source: string, voidElements: Set<string> = new Set()): XmlNode => {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [] };
+  const stack: XmlNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+|<)/g;
+
+  for (const match of source.matchAll(tokenPattern)) {
+    const parent = stack[stack.length - 1];
+    const [, cdata, closeName, openName, attrSource, selfClose, text] = match;
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (closeName) {
+      const name = closeName.toLowerCase();
+      const index = stack.map(n => n.name.toLowerCase()).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else if (openName) {
+      const node: XmlNode = { name: openName, attrs: parseAttributes(attrSource || ''), children: [] };
+      parent.children.push(node);
+      if (!selfClose && !voidElements.has(openName.toLowerCase())) stack.push(node);
+    } else if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+    }
+  }
+
+  return root;
+};
+
+export const isElement = (node: XmlNode | string): node is XmlNode => typeof node !== 'string';
+
+/**
+ * Child elements, optionally filtered by qualified name
+ */
+export const childElements = (node: XmlNode, name?: string): XmlNode[] =>
+  node.children.filter(isElement).filter(c => !name || c.name === name);
+
+/**
+ * All descendant elements with the given qualified name, in document order
+ */
+export const findAll = (node: XmlNode, name: string): XmlNode[] => {
+  const found: XmlNode[] = [];
+  const visit = (current: XmlNode) => {
+    childElements(current).forEach(child => {
+      if (child.name === name) found.push(child);
+      visit(child);
+    });
+  };
+  visit(node);
+  return found;
+};
+
+export const findFirst = (node: XmlNode, name: string): XmlNode | undefined => findAll(node, name)[0];
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export const textContent = (node: XmlNode): string =>
+  node.children.map(c => (isElement(c) ? textContent(c) : c)).join('');
@@ -0,0 +1,259 @@
+/**
+ * Minimal YAML reader for configuration files: block mappings and
+ * sequences, single-line flow collections, quoted and plain scalars, block
+ * scalars (| and >), comments and multiple documents. Anchors, aliases,
+ * tags and multi-line flow collections are not supported.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface State {
+  lines: string[];
+  pos: number;
+}
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const isContent = (line: string): boolean => {
+  const text = line.trim();
+  return text !== '' && !text.startsWith('#');
+};
+
+/**
+ * Next line that carries content, skipping blanks and comments
+ */
+const peek = (state: State): string | undefined => {
+  while (state.pos < state.lines.length && !isContent(state.lines[state.pos])) state.pos++;
+  return state.lines[state.pos];
+};
+
+/**
+ * Index of the first unquoted occurrence of a pattern character, or -1
+ */
+const findUnquoted = (text: string, test: (i: number) => boolean): number => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s:,[{]/.test(text[i - 1]))) {
+      quote = ch;
+    } else if (test(i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const stripComment = (text: string): string => {
+  const hash = findUnquoted(text, i => text[i] === '#' && (i === 0 || /\s/.test(text[i - 1])));
+  return (hash === -1 ? text : text.slice(0, hash)).trim();
+};
+
+/**
+ * Split "key: value" at the first unquoted ": " (or a trailing ":")
+ */
+const splitMappingEntry = (text: string): { key: string; rest: string } | null => {
+  if (text.startsWith('[') || text.startsWith('{') || text.startsWith('- ')) return null;
+  const colon = findUnquoted(text, i => text[i] === ':' && (i + 1 === text.length || /\s/.test(text[i + 1])));
+  if (colon <= 0) return null;
+  const key = parseScalar(text.slice(0, colon).trim());
+  return { key: key === null ? 'null' : String(key), rest: text.slice(colon + 1).trim() };
+};
+
+const NUMBER = /^[-+]?(?:\d[\d_]*)?(?:\.\d+)?(?:[eE][-+]?\d+)?$/;
+
+export const parseScalar = (raw: string): YamlValue => {
+  const text = raw.trim();
+  if (text.startsWith('"') && text.endsWith('"') && text.length > 1) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length > 1) return text.slice(1, -1).replace(/''/g, "'");
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text, 16);
+  if (/^[-+]?\.inf$/i.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.nan$/i.test(text)) return NaN;
+  if (/\d/.test(text) && NUMBER.test(text)) return Number(text.replace(/_/g, ''));
+  return text;
+};
+
+/**
+ * Parse a one-line flow collection such as [a, b] or {x: 1, y: [2, 3]}
+ */
+const parseFlow = (text: string): YamlValue => {
+  let i = 0;
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readScalar = (): string => {
+    skipSpace();
+    const start = i;
+    if (text[i] === '"' || text[i] === "'") {
+      const quote = text[i++];
+      while (i < text.length && text[i] !== quote) i += text[i] === '\\' && quote === '"' ? 2 : 1;
+      i++;
+      return text.slice(start, i);
+    }
+    while (i < text.length && !',]}'.includes(text[i]) && !(text[i] === ':' && /[\s,\]}]/.test(text[i + 1] || ' '))) i++;
+    return text.slice(start, i).trim();
+  };
+  const readValue = (): YamlValue => {
+    skipSpace();
+    if (text[i] === '[') {
+      i++;
+      const items: YamlValue[] = [];
+      for (skipSpace(); i < text.length && text[i] !== ']'; skipSpace()) {
+        items.push(readValue());
+        skipSpace();
+        if (text[i] === ',') i++;
+      }
+      i++;
+      return items;
+    }
+    if (text[i] === '{') {
+      i++;
+      const map: { [key: string]: YamlValue } = {};
+      for (skipSpace(); i < text.length && text[i] !== '}'; skipSpace()) {
+        const key = String(parseScalar(readScalar()));
+        skipSpace();
+        let value: YamlValue = null;
+        if (text[i] === ':') {
+          i++;
+          value = readValue();
+        }
+        map[key] = value;
+        skipSpace();
+        if (text[i] === ',') i++;
+      }
+      i++;
+      return map;
+    }
+    return parseScalar(readScalar());
+  };
+  return readValue();
+};
+
+/**
+ * Literal (|) or folded (>) block scalar on the lines after its header
+ */
+const parseBlockScalar = (state: State, header: string, parentIndent: number): string => {
+  const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+  const lines: string[] = [];
+  while (state.pos < state.lines.length) {
+    const line = state.lines[state.pos];
+    if (line.trim() && indentOf(line) <= parentIndent) break;
+    lines.push(line);
+    state.pos++;
+  }
+  const contentIndent = Math.min(...lines.filter(l => l.trim()).map(indentOf));
+  const body = lines.map(l => l.slice(Number.isFinite(contentIndent) ? contentIndent : 0));
+
+  let text = header.startsWith('|')
+    ? body.join('\n')
+    : body.reduce((folded, line, i) => {
+        if (i === 0) return line;
+        if (!line.trim()) return `${folded}\n`;
+        return folded.endsWith('\n') || !body[i - 1].trim() ? folded + line : `${folded} ${line}`;
+      }, '');
+  if (chomp === 'strip') text = text.replace(/\n+$/, '');
+  else if (chomp === 'clip') text = text.replace(/\n*$/, '\n');
+  return text;
+};
+
+/**
+ * Value written after "key:" or "- " on the same line
+ */
+const parseInline = (state: State, rest: string, indent: number): YamlValue => {
+  let text = stripComment(rest);
+  // Anchors and tags are dropped; the value itself is kept
+  text = text.replace(/^(?:[&!][^\s]*\s*)+/, '');
+  if (/^[|>][-+0-9]*$/.test(text)) return parseBlockScalar(state, text, indent);
+  if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text);
+
+  // Plain scalars may continue on more deeply indented lines
+  while (state.pos < state.lines.length) {
+    const next = peek(state);
+    if (next === undefined || indentOf(next) <= indent || splitMappingEntry(next.trim()) || next.trim().startsWith('- ')) break;
+    text += ` ${stripComment(next)}`;
+    state.pos++;
+  }
+  return parseScalar(text);
+};
+
+const parseSequence = (state: State, indent: number): YamlValue[] => {
+  const items: YamlValue[] = [];
+  for (let line = peek(state); line !== undefined && indentOf(line) === indent && /^-(\s|$)/.test(line.trim()); line = peek(state)) {
+    const rest = line.trim().slice(1);
+    if (!rest.trim()) {
+      state.pos++;
+      items.push(parseNode(state, indent));
+      continue;
+    }
+    // Re-read "- key: value" as a node indented where its content starts
+    const contentIndent = indent + 1 + (rest.length - rest.trimStart().length);
+    state.lines[state.pos] = ' '.repeat(contentIndent) + rest.trim();
+    items.push(parseNode(state, indent));
+  }
+  return items;
+};
+
+const parseMapping = (state: State, indent: number): { [key: string]: YamlValue } => {
+  const map: { [key: string]: YamlValue } = {};
+  for (let line = peek(state); line !== undefined && indentOf(line) === indent; line = peek(state)) {
+    const entry = splitMappingEntry(line.trim());
+    if (!entry) break;
+    state.pos++;
+    if (entry.rest && !entry.rest.startsWith('#')) {
+      map[entry.key] = parseInline(state, entry.rest, indent);
+      continue;
+    }
+    const next = peek(state);
+    // "key:" followed by a sequence at the same indentation is allowed
+    map[entry.key] = next !== undefined && indentOf(next) === indent && /^-(\s|$)/.test(next.trim())
+      ? parseSequence(state, indent)
+      : parseNode(state, indent);
+  }
+  return map;
+};
+
+/**
+ * Node whose lines are indented deeper than its parent's
+ */
+const parseNode = (state: State, parentIndent: number): YamlValue => {
+  const line = peek(state);
+  if (line === undefined || indentOf(line) <= parentIndent) return null;
+  const indent = indentOf(line);
+  const text = line.trim();
+  if (/^-(\s|$)/.test(text)) return parseSequence(state, indent);
+  if (splitMappingEntry(text)) return parseMapping(state, indent);
+  state.pos++;
+  return parseInline(state, text, parentIndent);
+};
+
+/**
+ * Parse every document in a YAML stream
+ */
+export const parseYaml = (source: string): YamlValue[] => {
+  const documents: string[][] = [[]];
+  source.replace(/^﻿/, '').split(/\r?\n/).forEach(line => {
+    if (/^---(\s|$)/.test(line)) documents.push([]);
+    else if (/^\.\.\.\s*$/.test(line)) documents.push([]);
+    else if (!/^%/.test(line)) documents[documents.length - 1].push(line.replace(/\t/g, '  '));
+  });
+  return documents
+    .filter(lines => lines.some(isContent))
+    .map(lines => {
+      const state: State = { lines, pos: 0 };
+      const value = parseNode(state, -1);
+      if (peek(state) !== undefined) {
+        throw new Error(`Unexpected content on line ${state.pos + 1}: ${state.lines[state.pos].trim()}`);
+      }
+      return value;
+    });
+};
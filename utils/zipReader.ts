@@ -0,0 +1,96 @@
+/**
+ * Minimal ZIP reader for Office Open XML, EPUB and archive uploads.
+ * Reads the central directory and inflates entries with the browser's
+ * native DecompressionStream, so no third-party library is needed.
+ */
+
+export interface ZipEntry {
+  path: string;
+  size: number; // uncompressed size in bytes
+  isDirectory: boolean;
+  read(): Promise<Uint8Array>;
+  text(): Promise<string>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 64 KB, at the very end
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+};
+
+export const readZip = async (source: ArrayBuffer | Blob): Promise<ZipEntry[]> => {
+  const buffer = source instanceof Blob ? await source.arrayBuffer() : source;
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    // Bit 11 marks UTF-8 names; older tools use CP437, which is ASCII-compatible for common names
+    const path = (flags & 0x800) ? decoder.decode(nameBytes) : String.fromCharCode(...nameBytes);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const read = async (): Promise<Uint8Array> => {
+      if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+        throw new Error(`Corrupt ZIP entry: ${path}`);
+      }
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = bytes.subarray(start, start + compressedSize);
+
+      if (method === METHOD_STORED) return data;
+      if (method === METHOD_DEFLATE) return inflateRaw(data);
+      throw new Error(`Unsupported compression method ${method} for ${path}`);
+    };
+
+    entries.push({
+      path,
+      size,
+      isDirectory: path.endsWith('/'),
+      read,
+      text: async () => decoder.decode(await read())
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Index entries by path for random access
+ */
+export const zipEntryMap = (entries: ZipEntry[]): Map<string, ZipEntry> =>
+  new Map(entries.map(e => [e.path, e]));
@@ -0,0 +1,120 @@
+/**
+ * Minimal ZIP writer, the counterpart of zipReader. Entries are deflated
+ * with the browser's native CompressionStream when that makes them smaller
+ * and stored as-is otherwise (e.g. PDFs and images, already compressed).
+ */
+
+export interface ZipInput {
+  path: string;
+  data: Uint8Array | Blob | string;
+  date?: Date; // modification time, defaults to now
+}
+
+const LOCAL_SIGNATURE = 0x04034b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const UTF8_FLAG = 0x800;
+// Without ZIP64 sizes, offsets and the entry count are 32/16-bit
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBytes = async (data: ZipInput['data']): Promise<Uint8Array> => {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+  return data;
+};
+
+// MS-DOS time and date fields (2-second resolution, years from 1980)
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const writeZip = async (inputs: ZipInput[]): Promise<Blob> => {
+  if (inputs.length > MAX_ENTRIES) {
+    throw new Error(`Too many files for a ZIP archive (${inputs.length})`);
+  }
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const name = encoder.encode(input.path);
+    const data = await toBytes(input.data);
+    const deflated = await deflateRaw(data);
+    const useDeflate = deflated.length < data.length;
+    const body = useDeflate ? deflated : data;
+    if (data.length > MAX_SIZE || offset + body.length > MAX_SIZE) {
+      throw new Error('Archive is too large (ZIP64 is not supported)');
+    }
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(input.date || new Date());
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORED;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIGNATURE, true);
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // extra field length
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_SIGNATURE, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, UTF8_FLAG, true);
+    entry.setUint16(10, method, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, body.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true); // local header offset; other fields stay zero
+
+    parts.push(new Uint8Array(local.buffer), name, body);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIGNATURE, true);
+  eocd.setUint16(8, inputs.length, true);
+  eocd.setUint16(10, inputs.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(eocd.buffer)], { type: 'application/zip' });
+};